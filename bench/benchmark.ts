@@ -0,0 +1,115 @@
+import { readFileSync } from "fs";
+import { performance } from "perf_hooks";
+import type { TFile } from "obsidian";
+import { ChangeSet, Text } from "@codemirror/state";
+import { LinkMatcher, MatchSettings, MatchTarget } from "../src/matcher";
+import { EditorMatchCache } from "../src/match-cache";
+
+/* --- SYNTHETIC VAULT BENCHMARK --- */
+// npm run bench -- [--notes 10000] [--terms 100000] [--seed 1] [--check]
+// Same seed, same vault: timings are comparable between runs. --check fails when a timing exceeds bench/budgets.json.
+
+const arg = (name: string, fallback: number) => {
+    const i = process.argv.indexOf(`--${name}`);
+    return i !== -1 ? Number(process.argv[i + 1]) : fallback;
+};
+const NOTES = arg("notes", 10000);
+const TERMS = arg("terms", 100000);
+const SEED = arg("seed", 1);
+const CHECK = process.argv.includes("--check");
+
+// mulberry32
+let state = SEED >>> 0;
+const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const pick = <T>(list: T[]) => list[Math.floor(random() * list.length)];
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyz";
+const randomWord = (min = 3, max = 10) => {
+    const length = min + Math.floor(random() * (max - min + 1));
+    let word = "";
+    for (let i = 0; i < length; i++) word += LETTERS[Math.floor(random() * LETTERS.length)];
+    return word;
+};
+
+const settings = (overrides: Partial<MatchSettings> = {}): MatchSettings => ({
+    matchStart: true, matchEnd: true, matchMiddle: false, minMatchLength: 3, ignoredWords: [], characterMatching: "auto", matchMode: "affix", morphologyLanguages: ["en"], ...overrides
+});
+
+// Terms are note names plus aliases and headings; about one in five is a phrase
+const terms: { term: string, target: MatchTarget }[] = [];
+const files = Array.from({ length: NOTES }, (_, i) => ({ basename: `note ${i}`, path: `folder ${i % 50}/note ${i}.md` } as TFile));
+for (let i = 0; i < TERMS; i++) {
+    const term = random() < 0.2 ? `${randomWord()} ${randomWord()}` : randomWord(4, 12);
+    const file = files[i % NOTES];
+    terms.push({ term, target: { file, actualName: term } });
+}
+
+// Prose mixing indexed terms, words containing them, and noise
+const paragraph = (words: number) => {
+    const out: string[] = [];
+    for (let i = 0; i < words; i++) {
+        const roll = random();
+        if (roll < 0.05) out.push(pick(terms).term);
+        else if (roll < 0.1) out.push(randomWord(1, 3) + pick(terms).term.split(" ")[0] + randomWord(1, 3));
+        else out.push(randomWord(2, 9));
+    }
+    return out.join(" ") + ".";
+};
+const lines = Array.from({ length: 2000 }, () => paragraph(20));
+
+const results: Record<string, number> = {};
+const time = (name: string, run: () => void) => {
+    const start = performance.now();
+    run();
+    results[name] = Math.round((performance.now() - start) * 10) / 10;
+};
+
+const build = (overrides: Partial<MatchSettings> = {}) => {
+    const matcher = new LinkMatcher(settings(overrides));
+    for (const { term, target } of terms) matcher.addTerm(term, target);
+    return matcher;
+};
+
+let matcher = build();
+time("index build", () => { matcher = build(); });
+const note = lines.join("\n");
+time("find matches (start/end)", () => { matcher.findMatches(note, new Set()); });
+const middle = build({ matchMiddle: true });
+time("find matches (start/end/middle)", () => { middle.findMatches(note, new Set()); });
+
+// Editor: keystrokes at the end of a line in a 60-line viewport that wanders down the note, rescanning the viewport each time against the incremental cache
+const EDITS = 500, VIEWPORT = 60;
+const edits = Array.from({ length: EDITS }, (_, i) => ({ line: Math.floor(i / 25) * 90 + 1 + Math.floor(random() * VIEWPORT), char: pick(LETTERS.split("")) }));
+const typing = (incremental: boolean) => {
+    let doc = Text.of(lines);
+    const cache = new EditorMatchCache();
+    for (const { line, char } of edits) {
+        const changes = ChangeSet.of({ from: doc.line(line).to, insert: char }, doc.length);
+        doc = changes.apply(doc);
+        if (incremental) cache.applyChanges(changes, doc); else cache.reset();
+        const top = Math.floor((line - 1) / 90) * 90 + 1;
+        const viewport = { from: doc.line(top).from, to: doc.line(Math.min(top + VIEWPORT, doc.lines)).to };
+        for (const r of cache.missing([viewport], doc)) {
+            cache.add(r, matcher.findMatches(doc.sliceString(r.from, r.to), new Set(), { offset: r.from }));
+        }
+        cache.within([viewport]);
+    }
+};
+time(`${EDITS} edits, full rescans`, () => typing(false));
+time(`${EDITS} edits, incremental`, () => typing(true));
+
+console.log(`${NOTES} notes, ${TERMS} terms, ${lines.length} lines of text, seed ${SEED}`);
+console.table(results);
+
+if (CHECK) {
+    const budgets: Record<string, number> = JSON.parse(readFileSync("bench/budgets.json", "utf8"));
+    const over = Object.keys(budgets).filter(name => name in results && results[name] > budgets[name]);
+    over.forEach(name => console.error(`Over budget: ${name} took ${results[name]} ms (budget ${budgets[name]} ms)`));
+    if (over.length > 0) process.exit(1);
+}
@@ -3,130 +3,68 @@ import {
     ItemView, MarkdownView, Menu, Editor, TFile, Notice,
     debounce, setIcon, MarkdownRenderer, EditorPosition,
     TFolder, View, EditorSuggest, EditorSuggestContext,
-    EditorSuggestTriggerInfo
+    EditorSuggestTriggerInfo, getAllTags, resolveSubpath, TAbstractFile, loadPdfJs,
+    MarkdownPostProcessorContext, Component, parseFrontMatterAliases, Command
 } from "obsidian";
 import { ViewPlugin, Decoration, DecorationSet, EditorView, ViewUpdate, WidgetType } from "@codemirror/view";
-import { RangeSetBuilder } from "@codemirror/state";
+import { EditorState, RangeSetBuilder } from "@codemirror/state";
 import { editorInfoField } from "obsidian";
-
-/* --- CONSTANTS & SETTINGS --- */
-const VIEW_TYPE_LAZY_LINKS = "lazy-links-view";
-
-interface LazyLinksSettings {
-    matchStart: boolean;
-    matchEnd: boolean;
-    matchMiddle: boolean;
-    minMatchLength: number;
-    includeHeaders: boolean;
-    headerLevels: Record<string, boolean>;
-    enableReadingMode: boolean;
-    firstMentionStyle: string;
-    subsequentMentionStyle: string;
-    customAccentColor: string;
-    ignoredWords: string[];
-    showHighlights: boolean;
-}
-
-const DEFAULT_SETTINGS: LazyLinksSettings = {
-    matchStart: true,
-    matchEnd: true,
-    matchMiddle: false,
-    minMatchLength: 3,
-    includeHeaders: false,
-    headerLevels: { h1: true, h2: true, h3: true, h4: false, h5: false, h6: false },
-    enableReadingMode: true,
-    firstMentionStyle: "full",
-    subsequentMentionStyle: "minimal",
-    customAccentColor: "",
-    ignoredWords: [],
-    showHighlights: true
-};
-
-/* --- TRIE & MATCHING LOGIC --- */
-class TrieNode {
-    children = new Map<string, TrieNode>();
-    match: any = null; // Stores target info
-}
-
-class WordTrie {
-    root = new TrieNode();
-
-    insert(phrase: string, target: any) {
-        const tokens = this.tokenize(phrase);
-        if (tokens.length === 0) return;
-        let node = this.root;
-        for (const token of tokens) {
-            if (!node.children.has(token)) {
-                node.children.set(token, new TrieNode());
-            }
-            node = node.children.get(token)!;
-        }
-        node.match = target;
-    }
-
-    tokenize(text: string): string[] {
-        return (text.toLowerCase().match(/[\p{L}\d]+/gu) || []);
-    }
-
-    findLongestMatch(tokens: any[], startIndex: number, selfNames: Set<string>, settings: LazyLinksSettings, allowSelf = false) {
-        let node = this.root;
-        let lastMatch = null;
-        let lastMatchLength = 0;
-        let currentLength = 0;
-
-        for (let i = startIndex; i < tokens.length; i++) {
-            const tokenText = tokens[i].text.toLowerCase();
-            let exactMatchFound = false;
-
-            if (node.children.has(tokenText)) {
-                node = node.children.get(tokenText)!;
-                currentLength++;
-                exactMatchFound = true;
-
-                if (node.match) {
-                    if (allowSelf || !selfNames.has(node.match.actualName.toLowerCase())) {
-                        lastMatch = node.match;
-                        lastMatchLength = currentLength;
-                    }
-                }
-            }
-
-            if (!exactMatchFound) {
-                // Check for partial matches on children (if not exact)
-                for (const [key, childNode] of node.children) {
-                    if (childNode.match) {
-                        let isMatch = false;
-                        if (settings.matchStart && tokenText.startsWith(key)) isMatch = true;
-                        if (settings.matchEnd && tokenText.endsWith(key)) isMatch = true;
-                        if (settings.matchMiddle && tokenText.includes(key)) isMatch = true;
-
-                        if (isMatch) {
-                            if (allowSelf || !selfNames.has(childNode.match.actualName.toLowerCase())) {
-                                lastMatch = childNode.match;
-                                lastMatchLength = currentLength + 1;
-                            }
-                        }
-                    }
-                }
-                break;
-            }
-        }
-        return { length: lastMatchLength, target: lastMatch };
+import { LazyLinksSettings, DEFAULT_SETTINGS, VIEW_TYPE_LAZY_LINKS } from "./src/settings";
+import { LinkMatcher, LinkMatch, FindMatchesOptions, MatchTarget, isAllCaps, describeTerm } from "./src/matcher";
+import { applyLinks, linkAlias, LinkFormatter, pickAutoLinks, unchangedMatches } from "./src/links";
+import { LinkPreviewModal, PendingLinks } from "./src/scan-modal";
+import { rankCandidates, TIE_BREAK_RULES, TieBreakRule } from "./src/ranking";
+import { TargetChooserModal } from "./src/target-chooser";
+import { Zone, excludedZones, findBlockZones, findInlineZones, sectionZones } from "./src/zones";
+import { editorZones, documentZones } from "./src/editor-zones";
+import { getStemmers } from "./src/morphology";
+import { isTargetAllowed, isSourceEnabled, targetRestrictions, isTargetAllowedFrom, isSwitchedOff } from "./src/scope";
+import { groupMatches, GroupBy, SortBy } from "./src/match-groups";
+import { buildReport, reportToMarkdown, reportToCsv, reportToJson, REPORT_BASENAME, isReportFile } from "./src/report";
+import { IgnoreRule, occurrenceContext, isTargetIgnored, dropIgnored, renameIgnorePaths, describeIgnore } from "./src/ignores";
+import { EditorMatchCache, touchesBlockSyntax, remember } from "./src/match-cache";
+import { headingSubpaths, describeSubpath, blockTerms, BlockInfo } from "./src/targets";
+import { AttachmentKind, attachmentKind, attachmentIcon, canvasText, parseExtensions } from "./src/attachments";
+import { lineRange, sourcePairer, firstMentionStarts } from "./src/reading";
+import { HoverPreview, PreviewActions } from "./src/hover-preview";
+import { LinkSuggestion, matchEndingAt, isFirstMention, suggestionsFor, suggestionText } from "./src/suggest";
+import { bodyStart, truncateMarkdown } from "./src/preview";
+import { STOPWORD_LISTS, TermFrequency, Suppression, buildSuppressor, describeSuppression, MIN_NOTES_FOR_FREQUENCY } from "./src/noise";
+import { RelevanceContext, scoreMatch, describeRelevance } from "./src/relevance";
+
+// The registry of Obsidian's own commands isn't in the public typings
+declare module "obsidian" {
+    interface App {
+        commands: { commands: Record<string, Command> };
     }
 }
 
+const NOTE_CACHE_SIZE = 50;
+const READING_CACHE_TEXTS = 2000; // Distinct text nodes kept per note in reading mode
+
 /* --- MAIN PLUGIN CLASS --- */
 export default class LazyLinksPlugin extends Plugin {
     settings: LazyLinksSettings;
-    phraseTrie: WordTrie;
-    singleWordIndex: Map<string, any>;
+    matcher: LinkMatcher;
+    backlinkCounts: Map<string, number> | null = null;
+    linkers: Map<string, string[]> | null = null; // Notes linking to each note, for relevance co-links
     view: LazyLinksView | null = null;
-    previewTimeout: NodeJS.Timeout | null = null;
+    hoverPreview = new HoverPreview((content, anchor, component) => this.fillPreview(content, anchor, component));
+    autoLinking = false; // Set while our own edits are applied, so they don't trigger another round
+    autoLinked = new Map<string, Set<string>>(); // Targets linked per note this session; the metadata cache lags behind typing
+    deferredMention: { path: string, start: number } | null = null; // A completed word that may still grow into a longer name
+    lastActiveFile: TFile | null = null;
+    termFrequency: TermFrequency | null = null; // From the last vault count, for common-term suppression
+    countingTerms = false;
+    suppressor: ((key: string) => Suppression | null) | null = null; // Rebuilt lazily after noise settings or counts change
+    indexRuns = new Map<string, number>(); // Per note, bumped on every (re)index so a block read that finishes late is dropped
+    noteMatchCache = new Map<string, { text: string, matches: LinkMatch[] }>(); // Whole-note results by path, dropped when an index change can affect them
+    readingMatchCache = new Map<string, Map<string, LinkMatch[]>>(); // Per note, results by rendered text node
+    sourceStates = new Map<string, string>(); // Per note, what its own matches depend on besides its text: names, tags and frontmatter
     
     async onload() {
         await this.loadSettings();
-        this.phraseTrie = new WordTrie();
-        this.singleWordIndex = new Map();
+        this.matcher = new LinkMatcher(this.settings);
         
         this.applyCustomStyles();
 
@@ -141,12 +79,56 @@ export default class LazyLinksPlugin extends Plugin {
         this.addCommand({ id: "rebuild-lazy-links-index", name: "Rebuild Index", callback: () => { this.rebuildIndex(); new Notice("Index Rebuilt"); }});
         this.addCommand({ id: "toggle-lazy-links-view", name: "Toggle Highlights", callback: () => this.toggleViewMode() });
         this.addCommand({ id: "cycle-lazy-links-mode", name: "Cycle View Mode", callback: () => this.cycleViewMode() });
+        this.addCommand({ id: "create-linking-report", name: "Create Vault Linking Report", callback: () => this.createReport() });
+        this.addCommand({ id: "next-mention", name: "Go to Next Unlinked Mention", editorCheckCallback: (checking, editor, ctx) => {
+            const next = ctx.file && this.getNoteMatches(editor, ctx.file).find(m => m.start > editor.posToOffset(editor.getCursor()));
+            if (!next) return false;
+            if (!checking) this.jumpTo(editor, next);
+            return true;
+        }});
+        this.addCommand({ id: "previous-mention", name: "Go to Previous Unlinked Mention", editorCheckCallback: (checking, editor, ctx) => {
+            const cursor = editor.posToOffset(editor.getCursor());
+            const prev = ctx.file && this.getNoteMatches(editor, ctx.file).filter(m => m.end < cursor).pop();
+            if (!prev) return false;
+            if (!checking) this.jumpTo(editor, prev);
+            return true;
+        }});
+        this.addCommand({ id: "link-mention-at-cursor", name: "Link Mention at Cursor", editorCheckCallback: (checking, editor, ctx) => {
+            const info = this.getMatchAtCursor(editor, editor.getCursor());
+            if (!info || info.target.file === ctx.file) return false;
+            if (!checking) {
+                if (info.candidates.length > 1) new TargetChooserModal(this.app, info.word, info.candidates, t => this.convertLink(editor, info, t)).open();
+                else this.convertLink(editor, info, info.target);
+            }
+            return true;
+        }});
+        this.addCommand({ id: "ignore-mention-at-cursor", name: "Ignore Mention at Cursor", editorCheckCallback: (checking, editor, ctx) => {
+            const info = this.getMatchAtCursor(editor, editor.getCursor());
+            if (!info || !ctx.file) return false;
+            if (!checking) this.ignoreOccurrence(ctx.file, editor.getLine(info.from.line), info);
+            return true;
+        }});
+        this.addCommand({ id: "link-mentions-in-selection", name: "Link All Mentions in Selection", editorCheckCallback: (checking, editor, ctx) => {
+            if (!ctx.file || !editor.somethingSelected()) return false;
+            const from = editor.posToOffset(editor.getCursor("from")), to = editor.posToOffset(editor.getCursor("to"));
+            const matches = this.getNoteMatches(editor, ctx.file).filter(m => m.start >= from && m.end <= to);
+            if (matches.length === 0) return false;
+            if (!checking) this.linkInEditor(editor, ctx.file, matches);
+            return true;
+        }});
+        this.addCommand({ id: "link-first-mentions", name: "Link First Mention of Every Note", editorCheckCallback: (checking, editor, ctx) => {
+            const matches = ctx.file ? pickAutoLinks(this.getNoteMatches(editor, ctx.file), "first", this.linkedTargets(ctx.file)) : [];
+            if (matches.length === 0) return false;
+            if (!checking) this.linkInEditor(editor, ctx.file!, matches);
+            return true;
+        }});
 
         // 4. Editor Extension (The red underlines)
         this.registerEditorExtension(ViewPlugin.fromClass(class {
             decorations: DecorationSet;
             plugin: LazyLinksPlugin;
             currentFile: TFile | null = null;
+            cache = new EditorMatchCache();
 
             constructor(view: EditorView) {
                 this.plugin = this.plugin || app.plugins.plugins["obsidian-lazy-links"]; // Fallback if capture fails
@@ -157,11 +139,18 @@ export default class LazyLinksPlugin extends Plugin {
                 this.decorations = this.buildDecorations(view);
             }
 
+            // Edits only rescan the lines they touch; a refresh, another file or a change to block syntax rescans what's visible
             update(update: ViewUpdate) {
-                if (update.docChanged || update.viewportChanged || update.transactions.some(t => t.isUserEvent('lazy-links-refresh'))) {
-                    this.updateCurrentFile(update.view);
-                    this.decorations = this.buildDecorations(update.view);
+                const refresh = update.transactions.some(t => t.isUserEvent('lazy-links-refresh'));
+                if (!(update.docChanged || update.viewportChanged || refresh)) return;
+                const previousFile = this.currentFile;
+                this.updateCurrentFile(update.view);
+                if (refresh || this.currentFile !== previousFile || (update.docChanged && touchesBlockSyntax(update.changes, update.startState.doc, update.state.doc))) {
+                    this.cache.reset();
+                } else if (update.docChanged) {
+                    this.cache.applyChanges(update.changes, update.state.doc);
                 }
+                this.decorations = this.buildDecorations(update.view);
             }
 
             updateCurrentFile(view: EditorView) {
@@ -174,69 +163,25 @@ export default class LazyLinksPlugin extends Plugin {
             buildDecorations(view: EditorView): DecorationSet {
                 if (!this.plugin || !this.plugin.settings.showHighlights || !this.currentFile) return Decoration.none;
 
+                // Only visible lines that haven't been scanned since the last edit
+                for (const range of this.cache.missing(view.visibleRanges, view.state.doc)) {
+                    const text = view.state.doc.sliceString(range.from, range.to);
+                    const exclude = excludedZones(editorZones(view.state, range.from, range.to), this.plugin.settings);
+                    this.cache.add(range, this.plugin.findMatches(text, this.currentFile, { offset: range.from, exclude }));
+                }
+
                 const builder = new RangeSetBuilder<Decoration>();
-                const selfNames = this.plugin.getSelfNames(this.currentFile);
                 const seenInThisView = new Set<string>();
-                
-                // Visible Ranges loop (optimization)
-                for (const { from, to } of view.visibleRanges) {
-                    const text = view.state.doc.sliceString(from, to);
-                    // Adjust offsets relative to 'from'
-                    const tokens = [];
-                    const wordRegex = /[\p{L}\d]+/gu;
-                    let match;
-                    
-                    // Exclude existing links [[ ]] and [ ]( )
-                    const ignoreRanges: {start: number, end: number}[] = [];
-                    const linkRegex = /\[\[.*?\]\]|\[.*?\]\(.*?\)/g;
-                    while ((match = linkRegex.exec(text)) !== null) {
-                        ignoreRanges.push({ start: match.index, end: match.index + match[0].length });
-                    }
-
-                    while ((match = wordRegex.exec(text)) !== null) {
-                        const start = match.index;
-                        const end = start + match[0].length;
-                        const isIgnored = ignoreRanges.some(r => start >= r.start && end <= r.end);
-                        if (!isIgnored) tokens.push({ text: match[0], start: from + start, end: from + end });
-                    }
-
-                    let tIndex = 0;
-                    while (tIndex < tokens.length) {
-                        const phraseMatch = this.plugin.phraseTrie.findLongestMatch(tokens, tIndex, selfNames, this.plugin.settings, false);
-                        
-                        if (phraseMatch.target && phraseMatch.length > 0) {
-                            const startToken = tokens[tIndex];
-                            const endToken = tokens[tIndex + phraseMatch.length - 1];
-                            const key = phraseMatch.target.actualName.toLowerCase();
-                            
-                            const style = seenInThisView.has(key) ? this.plugin.settings.subsequentMentionStyle : this.plugin.settings.firstMentionStyle;
-                            
-                            if (style !== "off") {
-                                builder.add(startToken.start, endToken.end, Decoration.mark({
-                                    class: `cm-virtual-link lazy-style-${style}`,
-                                    attributes: { "data-link-target": phraseMatch.target.file.basename }
-                                }));
-                            }
-                            seenInThisView.add(key);
-                            tIndex += phraseMatch.length;
-                        } else {
-                            // Single word check
-                            const token = tokens[tIndex];
-                            const single = this.plugin.findBestMatchSingle(token.text, selfNames, false);
-                            if (single.target) {
-                                const key = single.matchedString;
-                                const style = seenInThisView.has(key) ? this.plugin.settings.subsequentMentionStyle : this.plugin.settings.firstMentionStyle;
-                                if (style !== "off") {
-                                    builder.add(token.start, token.end, Decoration.mark({
-                                        class: `cm-virtual-link lazy-style-${style}`,
-                                        attributes: { "data-link-target": single.target.file.basename }
-                                    }));
-                                }
-                                seenInThisView.add(key);
-                            }
-                            tIndex++;
-                        }
+                for (const m of this.cache.within(view.visibleRanges)) {
+                    const style = seenInThisView.has(m.key) ? this.plugin.settings.subsequentMentionStyle : this.plugin.settings.firstMentionStyle;
+                    if (style !== "off") {
+                        builder.add(m.start, m.end, Decoration.mark({
+                            class: `cm-virtual-link lazy-style-${style}` + (m.candidates.length > 1 ? " lazy-ambiguous" : "") + this.plugin.targetClass(m.target)
+                                + (this.plugin.isLowRelevance(m) ? " lazy-low-relevance" : ""),
+                            attributes: { "data-link-target": m.target.file.path, "data-link-subpath": m.target.subpath ?? "" }
+                        }));
                     }
+                    seenInThisView.add(m.key);
                 }
                 return builder.finish();
             }
@@ -252,24 +197,44 @@ export default class LazyLinksPlugin extends Plugin {
             const cursor = editor.getCursor();
             const info = this.getMatchAtCursor(editor, cursor);
             if (info) {
-                // Check if inside existing link
-                const line = editor.getLine(cursor.line);
-                if (line.lastIndexOf("[[", info.from.ch) > line.lastIndexOf("]]", info.from.ch)) return;
-
                 if (view.file && info.target.file.path === view.file.path) return;
                 
-                const label = info.target.subpath ? `Link to "${info.target.file.basename} > ${info.target.subpath}"` : `Link to "${info.target.file.basename}"`;
+                let label = info.target.subpath ? `Link to "${info.target.file.basename} > ${describeSubpath(info.target.subpath)}"` : `Link to "${info.target.file.basename}"`;
+                if (info.target.source && info.target.source !== "name") label += ` (${describeTerm(info.target)})`;
                 
                 menu.addItem((item) => {
                     item.setTitle(label).setIcon("link").onClick(() => this.convertLink(editor, info, info.target));
                 });
-                menu.addItem((item) => {
-                    item.setTitle(`Ignore "${info.word}"`).setIcon("cross").onClick(async () => {
-                         this.settings.ignoredWords.push(info.word.toLowerCase());
-                         await this.saveSettings();
-                         this.rebuildIndex();
-                         new Notice(`"${info.word}" ignored.`);
+                const kind = attachmentKind(info.target.file);
+                if (kind) {
+                    menu.addItem((item) => {
+                        item.setTitle(`Embed "${info.target.file.name}"`).setIcon(attachmentIcon(kind)).onClick(() => this.embedLink(editor, info, info.target));
+                    });
+                }
+                if (info.candidates.length > 1) {
+                    menu.addItem((item) => {
+                        item.setTitle(`Link to… (${info.candidates.length} notes)`).setIcon("list").onClick(() => {
+                            new TargetChooserModal(this.app, info.word, info.candidates, t => this.convertLink(editor, info, t)).open();
+                        });
+                    });
+                }
+                const file = view.file;
+                if (file) {
+                    const folder = file.parent && file.parent.path !== "/" ? file.parent.path : "";
+                    menu.addItem((item) => {
+                        item.setTitle("Ignore this mention").setIcon("eye-off").onClick(() => this.ignoreOccurrence(file, editor.getLine(info.from.line), info));
+                    });
+                    menu.addItem((item) => {
+                        item.setTitle(`Ignore "${info.word}" in this note`).setIcon("file-x").onClick(() =>
+                            this.addIgnoreRule({ scope: "note", term: info.key, sourcePath: file.path, created: Date.now() }));
+                    });
+                    menu.addItem((item) => {
+                        item.setTitle(`Never link to "${info.target.file.basename}" from ${folder || "this vault"}`).setIcon("folder-x").onClick(() =>
+                            this.addIgnoreRule({ scope: "folder", term: info.target.file.basename, sourcePath: folder, targetPath: info.target.file.path, created: Date.now() }));
                     });
+                }
+                menu.addItem((item) => {
+                    item.setTitle(`Ignore "${info.word}" everywhere`).setIcon("cross").onClick(() => this.ignoreWord(info.word));
                 });
             }
         }));
@@ -277,66 +242,241 @@ export default class LazyLinksPlugin extends Plugin {
         // 7. Mouse Events (Hover/Click)
         this.registerDomEvent(document, 'mouseover', (evt) => {
             const target = evt.target as HTMLElement;
-            if (target?.matches('.cm-virtual-link, .lazy-reading-link')) this.showPreview(target, evt);
+            if (target?.matches('.cm-virtual-link, .lazy-reading-link')) this.hoverPreview.hover(target, evt);
         });
         this.registerDomEvent(document, 'mouseout', (evt) => {
             const target = evt.target as HTMLElement;
-            if (target?.matches('.cm-virtual-link, .lazy-reading-link')) this.hidePreview();
+            if (target?.matches('.cm-virtual-link, .lazy-reading-link')) this.hoverPreview.leave();
+        });
+        // Ctrl/Cmd on its own pins the preview under the pointer, Escape closes every preview
+        this.registerDomEvent(document, 'keydown', (evt) => {
+            if (evt.key === "Control" || evt.key === "Meta") {
+                const alone = !evt.repeat && !evt.shiftKey && !evt.altKey && !(evt.ctrlKey && evt.metaKey);
+                if (alone && this.hoverPreview.hovered) this.hoverPreview.pin();
+            } else if (evt.key === "Escape") this.hoverPreview.closeAll();
+        });
+        this.register(() => this.hoverPreview.closeAll());
+        this.registerDomEvent(document, 'contextmenu', (evt) => {
+            const target = evt.target as HTMLElement;
+            if (target?.matches('.lazy-reading-link[data-source-start]')) {
+                evt.preventDefault();
+                this.showReadingMenu(target, evt);
+            }
         });
         this.registerDomEvent(document, 'click', (evt) => {
             const target = evt.target as HTMLElement;
             if (target?.matches('.cm-virtual-link, .lazy-reading-link')) {
                 evt.preventDefault(); evt.stopPropagation();
                 const link = target.getAttribute('data-link-target');
-                if (link) this.openFile(link, evt);
+                if (link) this.openFile(link, evt, target.getAttribute('data-link-subpath') ?? "");
             }
         });
 
-        // Wait for layout
-        this.app.workspace.onLayoutReady(() => this.rebuildIndex());
-        
-        // Auto-rebuild on file changes
-        const debouncedRebuild = debounce(() => this.rebuildIndex(), 5000, false);
-        this.registerEvent(this.app.metadataCache.on("resolved", debouncedRebuild));
+        // 8. Inline Suggestions While Typing
+        this.registerEditorSuggest(new LazyLinkSuggest(this.app, this));
+
+        // 9. Auto-link
+        this.registerEvent(this.app.workspace.on("editor-change", (editor, info) => {
+            // The sidebar lists positions in the note, which any edit can shift
+            this.view?.refresh();
+            if (this.settings.autoLinkMode === "word" && info.file) this.autoLinkCompletedWord(editor, info.file);
+        }));
+        // Leaving means another note becomes active or the note's last tab closes; focusing the sidebar or another panel doesn't count
+        const checkLeftNote = () => {
+            const previous = this.lastActiveFile;
+            const active = this.app.workspace.getActiveViewOfType(MarkdownView)?.file ?? null;
+            const stillOpen = this.app.workspace.getLeavesOfType("markdown").some(l => l.view instanceof MarkdownView && l.view.file === previous);
+            if (active) this.lastActiveFile = active;
+            else if (!stillOpen) this.lastActiveFile = null;
+            if (this.settings.autoLinkMode === "leave" && previous && previous !== this.lastActiveFile) this.autoLinkNote(previous);
+            if (this.deferredMention && this.deferredMention.path !== this.lastActiveFile?.path) this.flushDeferredMention();
+        };
+        this.registerEvent(this.app.workspace.on("active-leaf-change", checkLeftNote));
+        this.registerEvent(this.app.workspace.on("layout-change", checkLeftNote));
+        // A mention held back while typing is settled once the editor loses focus
+        this.registerDomEvent(document, 'focusout', (evt) => {
+            if ((evt.target as HTMLElement)?.closest?.(".cm-editor")) this.flushDeferredMention();
+        });
+        // Saving goes through the save command whatever its hotkey, so linking hooks in there and is undone on unload
+        const save = this.app.commands?.commands["editor:save-file"];
+        if (save) {
+            const { callback, checkCallback } = save;
+            const afterSave = () => {
+                const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+                if (this.settings.autoLinkMode === "leave" && view?.file) this.autoLinkNote(view.file);
+            };
+            if (checkCallback) save.checkCallback = (checking) => {
+                const result = checkCallback.call(save, checking);
+                if (!checking && result !== false) afterSave();
+                return result;
+            };
+            else if (callback) save.callback = () => {
+                callback.call(save);
+                afterSave();
+            };
+            this.register(() => {
+                save.callback = callback;
+                save.checkCallback = checkCallback;
+            });
+        }
+
+        // Wait for layout, then keep the index current file by file (vault "create" also fires for every file during startup)
+        this.app.workspace.onLayoutReady(() => {
+            this.rebuildIndex().then(() => { if (this.settings.suppressCommonTerms) this.countTermFrequency(); });
+            this.registerEvent(this.app.vault.on("create", f => { if (this.isIndexedFile(f)) this.updateFileIndex(f); }));
+            this.registerEvent(this.app.vault.on("rename", (f, oldPath) => {
+                if (this.isIndexedFile(f)) this.updateFileIndex(f, oldPath);
+                else if (f instanceof TFile) this.removeFileIndex(f, oldPath); // e.g. renamed to an extension that isn't indexed
+            }));
+            this.registerEvent(this.app.vault.on("delete", f => { if (f instanceof TFile) this.removeFileIndex(f); }));
+            this.registerEvent(this.app.metadataCache.on("changed", f => this.updateFileIndex(f)));
+        });
+        this.registerEvent(this.app.metadataCache.on("resolved", () => { this.backlinkCounts = null; this.linkers = null; }));
+        this.registerEvent(this.app.vault.on("rename", (f, oldPath) => {
+            if (renameIgnorePaths(this.settings.ignoreRules, oldPath, f.path)) this.saveSettings();
+        }));
         this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.view?.refresh()));
     }
 
     /* --- HELPERS --- */
     
-    rebuildIndex() {
-        this.singleWordIndex.clear();
-        this.phraseTrie = new WordTrie();
-        const files = this.app.vault.getMarkdownFiles();
+    async rebuildIndex() {
+        this.matcher.clear();
+        this.backlinkCounts = null;
+        this.linkers = null;
+        const files = this.app.vault.getFiles().filter(f => this.isIndexedFile(f));
         
-        files.forEach(file => {
-            const cache = this.app.metadataCache.getFileCache(file);
-            if (cache?.frontmatter?.["ignore_linking"] === true) return;
-            
-            const addTerm = (term: string, target: any) => {
-                const t = term.toLowerCase();
-                if (this.settings.ignoredWords.includes(t)) return;
-                this.phraseTrie.insert(t, target);
-                if (!t.includes(" ")) this.singleWordIndex.set(t, target);
-            };
+        await Promise.all(files.map(file => this.indexFile(file)));
+        this.refreshEditors();
+    }
+
+    // Notes, plus attachments whose extension is opted in
+    isIndexedFile(file: TAbstractFile): file is TFile {
+        return file instanceof TFile && (file.extension === "md" || this.settings.attachmentExtensions.includes(file.extension.toLowerCase()));
+    }
+
+    // Attachments have no metadata, so only their file name is indexed
+    async indexFile(file: TFile) {
+        const path = file.path;
+        const run = (this.indexRuns.get(path) || 0) + 1;
+        this.indexRuns.set(path, run);
+        const cache = this.app.metadataCache.getFileCache(file);
+        this.sourceStates.set(path, JSON.stringify([[...this.getSelfNames(file)], this.getFileTags(file), cache?.frontmatter ?? null]));
+        if (cache?.frontmatter?.["ignore_linking"] === true) return;
+        if (!isTargetAllowed(file.path, this.getFileTags(file), this.settings)) return;
+        
+        const frontmatter = cache?.frontmatter;
+        const listOf = (key: string): string[] => {
+            const value = key ? frontmatter?.[key] : undefined;
+            if (typeof value === "string") return [value];
+            return Array.isArray(value) ? value.filter((v: any) => typeof v === "string") : [];
+        };
+        const excluded = new Set(listOf(this.settings.excludeTermsKey).map(t => t.toLowerCase()));
+
+        // lazy_case_sensitive: true covers every name of the note, a list covers just those names
+        const caseSensitive = frontmatter?.["lazy_case_sensitive"];
+        const isCaseSensitive = (term: string) => caseSensitive === true
+            || (Array.isArray(caseSensitive) && caseSensitive.includes(term))
+            || (typeof caseSensitive === "string" && caseSensitive === term)
+            || (this.settings.caseSensitiveAllCaps && isAllCaps(term));
+        const addTerm = (term: string, target: MatchTarget) => {
+            if (excluded.has(term.toLowerCase())) return;
+            this.matcher.addTerm(term, isCaseSensitive(term) ? { ...target, caseSensitive: true } : target);
+        };
 
-            addTerm(file.basename, { file, actualName: file.basename });
-            
-            cache?.frontmatter?.aliases?.forEach((a: any) => {
-                if (typeof a === "string") addTerm(a, { file, actualName: a });
+        addTerm(file.basename, { file, actualName: file.basename, source: "name" });
+        
+        listOf("aliases").forEach(a => addTerm(a, { file, actualName: a, source: "alias" }));
+        listOf(this.settings.termsKey).forEach(t => addTerm(t, { file, actualName: t, source: "term" }));
+        listOf(this.settings.patternsKey).forEach(p => this.matcher.addPattern(p, { file, actualName: p }));
+
+        if (this.settings.includeHeaders && cache?.headings) {
+            const subpaths = headingSubpaths(cache.headings);
+            cache.headings.forEach((h, i) => {
+                if (this.settings.headerLevels[`h${h.level}`] && h.heading.length >= this.settings.minMatchLength) {
+                    addTerm(h.heading, { file, actualName: h.heading, subpath: subpaths[i], source: "heading" });
+                }
             });
+        }
 
-            if (this.settings.includeHeaders && cache?.headings) {
-                cache.headings.forEach(h => {
-                    if (this.settings.headerLevels[`h${h.level}`] && h.heading.length >= this.settings.minMatchLength) {
-                        addTerm(h.heading, { file, actualName: h.heading, subpath: `#${h.heading}` });
-                    }
-                });
+        // Block text isn't in the metadata cache, so only notes that have block ids are read
+        const blocks = Object.values(cache?.blocks ?? {});
+        if (!(this.settings.includeBlocks || this.settings.includeListItems) || blocks.length === 0) return;
+        const text = await this.app.vault.cachedRead(file);
+        if (this.indexRuns.get(path) !== run) return; // Re-indexed or removed in the meantime
+        const infos: BlockInfo[] = blocks.map(b => ({
+            id: b.id,
+            text: text.substring(b.position.start.offset, b.position.end.offset),
+            isListItem: !!cache?.listItems?.some(li => li.position.start.line === b.position.start.line)
+        }));
+        blockTerms(infos, { comments: this.settings.includeBlocks, listItems: this.settings.includeListItems })
+            .forEach(({ id, term }) => addTerm(term, { file, actualName: term, subpath: `#^${id}`, source: "block" }));
+    }
+
+    // Re-indexes a single file; editors are only touched when its terms, names, tags or frontmatter actually changed
+    async updateFileIndex(file: TFile, oldPath = file.path) {
+        const signature = (entries: { term: string, target: MatchTarget }[]) =>
+            entries.map(e => `${e.term}|${e.target.actualName}|${e.target.subpath || ""}|${!!e.target.caseSensitive}|${e.target.source}`).join("\n");
+        const before = this.matcher.removeFile(oldPath);
+        const stateBefore = this.sourceStates.get(oldPath);
+        if (oldPath !== file.path) this.forgetNote(oldPath);
+        await this.indexFile(file);
+        const after = this.matcher.termsOf(file.path);
+        // Typing only re-parses the metadata; nothing to redo unless something besides the text changed
+        if (oldPath === file.path && signature(before) === signature(after) && stateBefore === this.sourceStates.get(file.path)) return;
+        // A pattern has no fixed first word to look for
+        if ([...before, ...after].some(e => e.target.source === "pattern")) return this.refreshEditors();
+        this.refreshAffectedEditors([...before, ...after].map(e => e.term), file);
+    }
+
+    removeFileIndex(file: TFile, path = file.path) {
+        this.forgetNote(path);
+        const removed = this.matcher.removeFile(path);
+        if (removed.length > 0) this.refreshAffectedEditors(removed.map(e => e.term), file);
+    }
+
+    forgetNote(path: string) {
+        this.indexRuns.delete(path);
+        this.sourceStates.delete(path);
+        this.noteMatchCache.delete(path);
+        this.readingMatchCache.delete(path);
+    }
+
+    // A term can only match where its first token appears (exactly, or as a substring for partial matches); word forms can't be pre-checked that way.
+    // Editors check their whole document, since their caches keep lines that have scrolled out of view.
+    refreshAffectedEditors(terms: string[], changedFile: TFile) {
+        const morphology = this.settings.matchMode === "morphology" && terms.length > 0;
+        const needles = [...new Set(terms.map(t => this.matcher.phraseTrie.tokenize(t)[0]).filter(Boolean))];
+        const mentionsChange = (text: string) => {
+            if (morphology) return true;
+            const lower = text.toLowerCase();
+            return needles.some(n => lower.includes(n));
+        };
+        this.noteMatchCache.forEach((entry, path) => {
+            if (path === changedFile.path || mentionsChange(entry.text)) this.noteMatchCache.delete(path);
+        });
+        this.readingMatchCache.forEach((texts, path) => {
+            if (path === changedFile.path || [...texts.keys()].some(mentionsChange)) this.readingMatchCache.delete(path);
+        });
+
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (!(leaf.view instanceof MarkdownView)) return;
+            const view = leaf.view;
+            const isSelf = view.file === changedFile; // Its own names (self-exclusion) may have changed
+            if (view.getMode() === 'preview') {
+                if (isSelf || mentionsChange(view.editor.getValue())) view.previewMode.rerender(true);
+                return;
             }
+            // @ts-ignore
+            const cm: EditorView | undefined = view.editor.cm;
+            if (!cm) return;
+            if (isSelf || mentionsChange(cm.state.doc.toString())) cm.dispatch({ userEvent: 'lazy-links-refresh' });
         });
-        this.refreshEditors();
+        this.view?.refresh();
     }
 
     refreshEditors() {
+        this.clearMatchCaches();
         // Dispatch event to update CodeMirror views
         this.app.workspace.iterateAllLeaves(leaf => {
             if (leaf.view?.editor?.cm) leaf.view.editor.cm.dispatch({ userEvent: 'lazy-links-refresh' });
@@ -348,6 +488,11 @@ export default class LazyLinksPlugin extends Plugin {
         this.view?.refresh();
     }
 
+    clearMatchCaches() {
+        this.noteMatchCache.clear();
+        this.readingMatchCache.clear();
+    }
+
     getSelfNames(file: TFile): Set<string> {
         const selfNames = new Set<string>();
         selfNames.add(file.basename.toLowerCase());
@@ -356,76 +501,375 @@ export default class LazyLinksPlugin extends Plugin {
         return selfNames;
     }
 
-    findBestMatchSingle(word: string, selfNames: Set<string>, allowSelf = false) {
-        const lower = word.toLowerCase();
-        if (this.singleWordIndex.has(lower)) {
-            if (allowSelf || !selfNames.has(lower)) 
-                return { target: this.singleWordIndex.get(lower), matchedString: lower };
-        }
-        
-        if (!this.settings.matchStart && !this.settings.matchEnd && !this.settings.matchMiddle)
-            return { target: null };
-            
-        if (word.length < this.settings.minMatchLength) return { target: null };
-        
-        for (let len = lower.length - 1; len >= this.settings.minMatchLength; len--) {
-            for (let i = 0; i <= lower.length - len; i++) {
-                const isStart = i === 0;
-                const isEnd = i + len === lower.length;
-                // Skip positions the enabled modes can't accept *before* allocating — avoids O(L^2) substring churn when matchMiddle is off (the default).
-                if (!((isStart && this.settings.matchStart) || (isEnd && this.settings.matchEnd) || (!isStart && !isEnd && this.settings.matchMiddle))) continue;
-                const sub = lower.substring(i, i + len);
-                if (!allowSelf && selfNames.has(sub)) continue;
-                if (this.singleWordIndex.has(sub)) {
-                    return { target: this.singleWordIndex.get(sub), matchedString: sub };
+    findMatches(text: string, sourceFile: TFile | null, options: FindMatchesOptions = {}): LinkMatch[] {
+        if (sourceFile && !this.isSourceEnabled(sourceFile)) return [];
+        const selfNames = sourceFile ? this.getSelfNames(sourceFile) : new Set<string>();
+        const ctx = { sourcePath: sourceFile?.path ?? "", backlinks: (path: string) => this.getBacklinkCount(path) };
+        const rank = (candidates: MatchTarget[]) => rankCandidates(candidates, this.settings.tieBreakRules, ctx);
+        const restrictions = sourceFile ? targetRestrictions(sourceFile.path, this.getFileTags(sourceFile), this.settings) : null;
+        const rules = this.settings.ignoreRules;
+        const filter = (t: MatchTarget) =>
+            (!restrictions || isTargetAllowedFrom(restrictions, t.file.path, this.getFileTags(t.file))) && !(sourceFile && isTargetIgnored(rules, sourceFile.path, t))
+            && (!options.filter || options.filter(t));
+        const suppress = this.getSuppressor();
+        // Case-sensitive names like "IT" are deliberate, so stopwords don't apply to them
+        const matches = this.matcher.findMatches(text, selfNames, { rank, ...options, filter }).filter(m => m.target.caseSensitive || !suppress(m.key));
+        if (!sourceFile) return matches;
+        return this.scoreRelevance(dropIgnored(matches, rules, sourceFile.path, text, options.offset ?? 0), sourceFile);
+    }
+
+    /* --- RELEVANCE --- */
+
+    // Scores every mention; below the threshold they are dropped, or kept and shown faintly
+    scoreRelevance(matches: LinkMatch[], sourceFile: TFile): LinkMatch[] {
+        if (matches.length === 0) return matches;
+        const resolved = this.app.metadataCache.resolvedLinks;
+        const ctx: RelevanceContext = {
+            sourcePath: sourceFile.path,
+            sourceTags: this.getFileTags(sourceFile),
+            tags: path => { const f = this.app.vault.getAbstractFileByPath(path); return f instanceof TFile ? this.getFileTags(f) : []; },
+            linkers: this.getLinkers(sourceFile.path),
+            links: (from, to) => !!resolved[from]?.[to]
+        };
+        const threshold = this.settings.relevanceThreshold / 100;
+        const scored = matches.map(m => ({ ...m, relevance: scoreMatch(m, ctx) }));
+        return threshold > 0 && this.settings.lowRelevance === "hide" ? scored.filter(m => m.relevance.score >= threshold) : scored;
+    }
+
+    isLowRelevance(m: LinkMatch): boolean {
+        return this.settings.relevanceThreshold > 0 && !!m.relevance && m.relevance.score < this.settings.relevanceThreshold / 100;
+    }
+
+    getLinkers(path: string): string[] {
+        if (!this.linkers) {
+            // Reverse of the resolved link graph, built lazily like the backlink counts
+            this.linkers = new Map();
+            for (const [from, links] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+                for (const dest of Object.keys(links)) {
+                    if (!this.linkers.has(dest)) this.linkers.set(dest, []);
+                    this.linkers.get(dest)!.push(from);
                 }
             }
         }
-        return { target: null };
+        return this.linkers.get(path) || [];
+    }
+
+    /* --- NOISE SUPPRESSION --- */
+
+    getSuppressor() {
+        if (!this.suppressor) this.suppressor = buildSuppressor(this.settings, this.termFrequency);
+        return this.suppressor;
+    }
+
+    noiseChanged() {
+        this.suppressor = null;
+        this.refreshEditors();
+    }
+
+    // In how many notes each term matches, ignoring suppression, scope and ignores; yields now and then so the app stays responsive
+    async countTermFrequency() {
+        if (this.countingTerms) return;
+        this.countingTerms = true;
+        try {
+            const files = this.app.vault.getMarkdownFiles();
+            const counts = new Map<string, number>();
+            for (let i = 0; i < files.length; i++) {
+                if (i % 50 === 49) await new Promise(resolve => setTimeout(resolve, 0));
+                const text = await this.app.vault.cachedRead(files[i]);
+                const keys = new Set(this.matcher.findMatches(text, this.getSelfNames(files[i]), { exclude: this.getExclusionZones(files[i], text) }).map(m => m.key));
+                keys.forEach(k => counts.set(k, (counts.get(k) || 0) + 1));
+            }
+            this.termFrequency = { notes: files.length, counts };
+        } finally {
+            this.countingTerms = false;
+        }
+        this.noiseChanged();
+    }
+
+    // Indexed terms that are currently suppressed, with the reason
+    getSuppressedTerms(): { term: string, suppression: Suppression }[] {
+        const suppress = this.getSuppressor();
+        const terms = new Map<string, Suppression>();
+        this.matcher.fileTerms.forEach(entries => entries.forEach(({ term, target }) => {
+            if (target.source === "pattern" || target.caseSensitive || terms.has(term)) return;
+            const suppression = suppress(term);
+            if (suppression) terms.set(term, suppression);
+        }));
+        return [...terms].map(([term, suppression]) => ({ term, suppression })).sort((a, b) => a.term.localeCompare(b.term));
+    }
+
+    async pinTerm(term: string, pinned: boolean) {
+        const rest = this.settings.pinnedTerms.filter(t => t !== term);
+        this.settings.pinnedTerms = pinned ? [...rest, term] : rest;
+        await this.saveSettings();
+        this.noiseChanged();
+    }
+
+    getFileTags(file: TFile): string[] {
+        const cache = this.app.metadataCache.getFileCache(file);
+        return cache ? getAllTags(cache) ?? [] : [];
+    }
+
+    isSourceEnabled(file: TFile): boolean {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        return isSourceEnabled(file.path, this.getFileTags(file), frontmatter, this.settings);
+    }
+
+    getBacklinkCount(path: string): number {
+        if (!this.backlinkCounts) {
+            // Built lazily from the resolved link graph; dropped on every index rebuild
+            this.backlinkCounts = new Map();
+            for (const links of Object.values(this.app.metadataCache.resolvedLinks)) {
+                for (const dest of Object.keys(links)) this.backlinkCounts.set(dest, (this.backlinkCounts.get(dest) || 0) + 1);
+            }
+        }
+        return this.backlinkCounts.get(path) || 0;
+    }
+
+    // Decorations store the full path; older renders may still carry a bare linktext
+    resolveTargetFile(link: string): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(link);
+        if (file instanceof TFile) return file;
+        return this.app.metadataCache.getFirstLinkpathDest(link, "");
+    }
+
+    // Block zones come from the metadata cache sections (exact frontmatter, code, tables...), inline ones from the text itself
+    getExclusionZones(file: TFile, text: string): Zone[] {
+        // An open note may have edits the metadata cache hasn't seen yet: its editor's syntax tree is current
+        const state = this.getEditorState(file, text);
+        if (state) return excludedZones(documentZones(state, text.length) ?? [...findBlockZones(text), ...findInlineZones(text)], this.settings);
+        const sections = this.app.metadataCache.getFileCache(file)?.sections;
+        const blocks = sections ? sectionZones(sections) : findBlockZones(text);
+        return excludedZones([...blocks, ...findInlineZones(text)], this.settings);
+    }
+
+    // The editor state of an open note whose text starts with the given text
+    getEditorState(file: TFile, text: string): EditorState | null {
+        let found: EditorState | null = null;
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (found || !(leaf.view instanceof MarkdownView) || leaf.view.file !== file) return;
+            // @ts-ignore
+            const cm: EditorView | undefined = leaf.view.editor.cm;
+            if (cm && cm.state.doc.length >= text.length && cm.state.doc.sliceString(0, text.length) === text) found = cm.state;
+        });
+        return found;
+    }
+
+    /* --- VAULT SCAN --- */
+
+    async scanVault(folder = "", skip: (path: string) => boolean = () => false): Promise<PendingLinks[]> {
+        const scope = folder.trim().replace(/^\/+|\/+$/g, "");
+        const files = this.app.vault.getMarkdownFiles().filter(f => (!scope || f.path.startsWith(scope + "/")) && !skip(f.path));
+        const results: PendingLinks[] = [];
+        for (const file of files) {
+            const text = await this.app.vault.cachedRead(file);
+            const matches = this.findMatches(text, file, { exclude: this.getExclusionZones(file, text), filter: t => !skip(t.file.path) });
+            if (matches.length > 0) results.push({ file, text, matches });
+        }
+        results.sort((a, b) => a.file.path.localeCompare(b.file.path));
+        return results;
+    }
+
+    // Same scan as vault mode, summarized into a note (plus CSV/JSON if enabled)
+    async createReport() {
+        new Notice("Scanning the vault for the linking report...");
+        // A previous report is neither scanned nor counted
+        const results = await this.scanVault("", isReportFile);
+        const notesScanned = this.app.vault.getMarkdownFiles().filter(f => !isReportFile(f.path)).length;
+        const report = buildReport(results, notesScanned, path => this.getBacklinkCount(path));
+
+        // The report is neither a target nor highlighted itself
+        const frontmatter: Record<string, string | boolean> = { ignore_linking: true };
+        if (this.settings.sourceSwitchKey) frontmatter[this.settings.sourceSwitchKey] = "off";
+        const note = await this.writeVaultFile(`${REPORT_BASENAME}.md`, reportToMarkdown(report, frontmatter));
+        if (this.settings.reportExport === "csv") await this.writeVaultFile(`${REPORT_BASENAME}.csv`, reportToCsv(report));
+        if (this.settings.reportExport === "json") await this.writeVaultFile(`${REPORT_BASENAME}.json`, reportToJson(report));
+        await this.app.workspace.getLeaf('tab').openFile(note);
+    }
+
+    async writeVaultFile(path: string, data: string): Promise<TFile> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, data);
+            return existing;
+        }
+        return this.app.vault.create(path, data);
+    }
+
+    // The reverse of the sidebar's note mode: every unlinked mention of one note across the vault
+    async findMentionsOf(target: TFile): Promise<PendingLinks[]> {
+        const terms = this.matcher.termsOf(target.path);
+        if (terms.length === 0) return [];
+        // Word forms and patterns can't be pre-checked by a plain substring
+        const canPrefilter = this.settings.matchMode !== "morphology" && terms.every(e => e.target.source !== "pattern");
+        const needles = [...new Set(terms.map(e => this.matcher.phraseTrie.tokenize(e.term)[0]).filter(Boolean))];
+
+        const results: PendingLinks[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (file === target) continue;
+            const text = await this.app.vault.cachedRead(file);
+            if (canPrefilter) {
+                const lower = text.toLowerCase();
+                if (!needles.some(n => lower.includes(n))) continue;
+            }
+            const matches = this.findMatches(text, file, { exclude: this.getExclusionZones(file, text), filter: t => t.file === target });
+            if (matches.length > 0) results.push({ file, text, matches });
+        }
+        results.sort((a, b) => a.file.path.localeCompare(b.file.path));
+        return results;
+    }
+
+    async applyPendingLinks(changes: PendingLinks[]) {
+        let linked = 0, skipped = 0, notes = 0;
+        for (const change of changes) {
+            await this.app.vault.process(change.file, data => {
+                const result = applyLinks(data, change.matches, this.linkFormatter(change.file.path));
+                linked += result.applied;
+                skipped += change.matches.length - result.applied;
+                if (result.applied > 0) notes++;
+                return result.text;
+            });
+        }
+        new Notice(`Linked ${linked} mention${linked === 1 ? "" : "s"} in ${notes} note${notes === 1 ? "" : "s"}.` + (skipped ? ` ${skipped} skipped (changed since scan).` : ""));
+    }
+
+    /* --- AUTO-LINK --- */
+
+    isAutoLinkEnabled(file: TFile): boolean {
+        if (this.settings.autoLinkMode === "off" || !this.isSourceEnabled(file)) return false;
+        const key = this.settings.autoLinkSwitchKey.trim();
+        return !(key && isSwitchedOff(this.app.metadataCache.getFileCache(file)?.frontmatter?.[key]));
+    }
+
+    linkedTargets(file: TFile): Set<string> {
+        const linked = new Set(Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {}));
+        this.autoLinked.get(file.path)?.forEach(p => linked.add(p));
+        return linked;
+    }
+
+    // Right after a word is finished (a space or punctuation typed): the mention ending there, plus one held back last time
+    autoLinkCompletedWord(editor: Editor, file: TFile) {
+        if (this.autoLinking || !this.isAutoLinkEnabled(file)) return;
+        const cursor = editor.getCursor();
+        const line = editor.getLine(cursor.line);
+        const isWordChar = (c: string | undefined) => !!c && /[\p{L}\d]/u.test(c);
+        if (cursor.ch < 2 || isWordChar(line[cursor.ch - 1]) || !isWordChar(line[cursor.ch - 2])) return;
+
+        const wordEnd = editor.posToOffset({ line: cursor.line, ch: cursor.ch - 1 });
+        const deferred = this.deferredMention?.path === file.path ? this.deferredMention : null;
+        this.deferredMention = null;
+        let picked = this.getLineMatches(editor, cursor.line, file).filter(m => m.end === wordEnd || (deferred && m.start === deferred.start && m.end < wordEnd));
+        const last = picked.find(m => m.end === wordEnd);
+        if (last && this.matcher.hasLongerPhrase(last.word)) {
+            this.deferredMention = { path: file.path, start: last.start };
+            picked = picked.filter(m => m !== last);
+        }
+        if (this.settings.autoLinkMentions === "first") {
+            const text = editor.getValue();
+            picked = pickAutoLinks(picked.filter(m => this.isFirstMention(text, file, m)), "first", this.linkedTargets(file));
+        }
+        this.applyAutoLinks(editor, file, picked);
+    }
+
+    // The held-back mention as it now stands, when typing moved elsewhere without completing a longer name
+    async flushDeferredMention() {
+        const deferred = this.deferredMention;
+        this.deferredMention = null;
+        if (!deferred || this.settings.autoLinkMode !== "word") return;
+        const file = this.app.vault.getAbstractFileByPath(deferred.path);
+        if (!(file instanceof TFile) || !this.isAutoLinkEnabled(file)) return;
+        await this.autoLinkWith(file, text => {
+            const m = this.getTextMatches(file, text).find(m => m.start === deferred.start);
+            if (!m || (this.settings.autoLinkMentions === "first" && !this.isFirstMention(text, file, m))) return [];
+            return pickAutoLinks([m], this.settings.autoLinkMentions, this.linkedTargets(file));
+        });
+    }
+
+    // On leaving or saving a note: the whole note at once, in its editor when one is open
+    async autoLinkNote(file: TFile) {
+        if (!this.isAutoLinkEnabled(file)) return;
+        await this.autoLinkWith(file, text =>
+            pickAutoLinks(this.getTextMatches(file, text), this.settings.autoLinkMentions, this.linkedTargets(file)));
+    }
+
+    async autoLinkWith(file: TFile, pick: (text: string) => LinkMatch[]) {
+        const view = this.app.workspace.getLeavesOfType("markdown").map(l => l.view).find(v => v instanceof MarkdownView && v.file === file) as MarkdownView | undefined;
+        if (view) {
+            this.applyAutoLinks(view.editor, file, pick(view.editor.getValue()));
+            return;
+        }
+        let applied: LinkMatch[] = [];
+        await this.app.vault.process(file, data => {
+            applied = pick(data);
+            return applyLinks(data, applied, this.linkFormatter(file.path)).text;
+        });
+        this.reportAutoLinks(file, applied);
+    }
+
+    applyAutoLinks(editor: Editor, file: TFile, matches: LinkMatch[]) {
+        if (matches.length === 0) return;
+        this.autoLinking = true;
+        let applied: LinkMatch[] = [];
+        try {
+            applied = this.applyInEditor(editor, file, matches);
+        } finally {
+            this.autoLinking = false;
+        }
+        this.reportAutoLinks(file, applied);
+    }
+
+    // One transaction, so a single undo reverts the whole batch. Matches the text has moved away from since they were found are left out.
+    applyInEditor(editor: Editor, file: TFile, matches: LinkMatch[]): LinkMatch[] {
+        const format = this.linkFormatter(file.path);
+        const fresh = unchangedMatches(matches, (start, end) => editor.getRange(editor.offsetToPos(start), editor.offsetToPos(end)));
+        if (fresh.length > 0) editor.transaction({
+            changes: fresh.map(m => ({ from: editor.offsetToPos(m.start), to: editor.offsetToPos(m.end), text: format(m.word, m.target) }))
+        });
+        return fresh;
+    }
+
+    linkInEditor(editor: Editor, file: TFile, matches: LinkMatch[]) {
+        const applied = this.applyInEditor(editor, file, matches).length;
+        new Notice(`Linked ${applied} mention${applied === 1 ? "" : "s"}.`);
+    }
+
+    reportAutoLinks(file: TFile, matches: LinkMatch[]) {
+        if (matches.length === 0) return;
+        if (!this.autoLinked.has(file.path)) this.autoLinked.set(file.path, new Set());
+        matches.forEach(m => this.autoLinked.get(file.path)!.add(m.target.file.path));
+        const names = [...new Set(matches.map(m => m.target.file.basename))];
+        new Notice(`Auto-linked in ${file.basename}: ${names.join(", ")}`);
     }
 
     /* --- DOM & HTML --- */
 
-    processHtml(element: HTMLElement, context: any) {
-        const sourceFile = this.app.metadataCache.getFirstLinkpathDest(context.sourcePath, "");
-        if (!sourceFile) return;
+    processHtml(element: HTMLElement, context: MarkdownPostProcessorContext) {
+        const sourceFile = this.app.vault.getAbstractFileByPath(context.sourcePath);
+        if (!(sourceFile instanceof TFile)) return;
+
+        // With section info, highlights are paired with the note's own matches: first or later mention across the whole note, nothing the editor leaves out,
+        // and a source position for the context menu. Without it (embeds, exports) every highlight gets the first-mention style.
+        const section = context.getSectionInfo(element);
+        let pair: ((m: LinkMatch) => LinkMatch | null) | null = null;
+        let firstStarts = new Set<number>();
+        if (section) {
+            const all = this.getTextMatches(sourceFile, section.text);
+            const { from, to } = lineRange(section.text, section.lineStart, section.lineEnd);
+            pair = sourcePairer(all.filter(m => m.start >= from && m.end <= to));
+            firstStarts = firstMentionStarts(all);
+        }
         
-        const selfNames = this.getSelfNames(sourceFile);
         const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
-        const nodesToReplace: {node: Node, matches: any[]}[] = [];
+        const nodesToReplace: {node: Node, matches: { m: LinkMatch, source: LinkMatch | null }[]}[] = [];
         
         let node;
         while (node = walker.nextNode()) {
             if (this.shouldSkipNode(node)) continue;
-            const text = node.nodeValue || "";
-            const tokens: any[] = [];
-            const regex = /[\p{L}\d]+/gu;
-            let match;
-            while ((match = regex.exec(text)) !== null) {
-                tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
-            }
-
-            const matches = [];
-            let tIndex = 0;
-            while (tIndex < tokens.length) {
-                const phraseMatch = this.phraseTrie.findLongestMatch(tokens, tIndex, selfNames, this.settings, false);
-                if (phraseMatch.target && phraseMatch.length > 0) {
-                    const startToken = tokens[tIndex];
-                    const endToken = tokens[tIndex + phraseMatch.length - 1];
-                    matches.push({
-                        start: startToken.start, end: endToken.end,
-                        result: { target: phraseMatch.target }, word: text.substring(startToken.start, endToken.end)
-                    });
-                    tIndex += phraseMatch.length;
-                } else {
-                    const token = tokens[tIndex];
-                    const single = this.findBestMatchSingle(token.text, selfNames, false);
-                    if (single.target) {
-                         matches.push({ start: token.start, end: token.end, result: single, word: token.text });
-                    }
-                    tIndex++;
-                }
-            }
+            const matches = this.getReadingMatches(sourceFile, node.nodeValue || "").flatMap(m => {
+                if (!pair) return [{ m, source: null }];
+                const source = pair(m);
+                return source ? [{ m, source }] : [];
+            });
             if (matches.length > 0) nodesToReplace.push({ node, matches });
         }
 
@@ -433,12 +877,20 @@ export default class LazyLinksPlugin extends Plugin {
         for (const { node, matches } of nodesToReplace) {
             const frag = document.createDocumentFragment();
             let lastIdx = 0;
-            for (const m of matches) {
+            for (const { m, source } of matches) {
+                const style = !source || firstStarts.has(source.start) ? this.settings.firstMentionStyle : this.settings.subsequentMentionStyle;
+                if (style === "off") continue;
                 if (m.start > lastIdx) frag.appendChild(document.createTextNode(node.nodeValue!.substring(lastIdx, m.start)));
                 
                 const span = document.createElement("span");
-                span.className = `lazy-reading-link lazy-style-${this.settings.firstMentionStyle}`;
-                span.setAttribute("data-link-target", m.result.target.file.basename);
+                span.className = `lazy-reading-link lazy-style-${style}` + (m.candidates.length > 1 ? " lazy-ambiguous" : "") + this.targetClass(m.target)
+                    + (this.isLowRelevance(m) ? " lazy-low-relevance" : "");
+                span.setAttribute("data-link-target", m.target.file.path);
+                span.setAttribute("data-link-subpath", m.target.subpath ?? "");
+                if (source) {
+                    span.setAttribute("data-source-path", sourceFile.path);
+                    span.setAttribute("data-source-start", String(source.start));
+                }
                 span.innerText = node.nodeValue!.substring(m.start, m.end);
                 frag.appendChild(span);
                 
@@ -449,11 +901,71 @@ export default class LazyLinksPlugin extends Plugin {
         }
     }
 
+    // Reading mode has no editor: actions find the mention again in the note's current text by its source offset
+    async getReadingMatchAt(span: HTMLElement): Promise<{ file: TFile, text: string, match: LinkMatch } | null> {
+        const file = this.app.vault.getAbstractFileByPath(span.getAttribute("data-source-path") ?? "");
+        if (!(file instanceof TFile)) return null;
+        const text = await this.app.vault.read(file);
+        const start = Number(span.getAttribute("data-source-start"));
+        const match = this.getTextMatches(file, text).find(m => m.start === start);
+        return match ? { file, text, match } : null;
+    }
+
+    showReadingMenu(span: HTMLElement, evt: MouseEvent) {
+        const menu = new Menu();
+        menu.addItem(item => item.setTitle("Link here").setIcon("link").onClick(() => this.linkInReading(span, false)));
+        if (span.classList.contains("lazy-ambiguous")) {
+            menu.addItem(item => item.setTitle("Link to…").setIcon("list").onClick(() => this.linkInReading(span, true)));
+        }
+        menu.addItem(item => item.setTitle("Ignore").setIcon("eye-off").onClick(() => this.ignoreInReading(span)));
+        menu.showAtMouseEvent(evt);
+    }
+
+    async linkInReading(span: HTMLElement, choose: boolean) {
+        const found = await this.getReadingMatchAt(span);
+        if (!found) return new Notice("This mention changed since the note was rendered.");
+        const { file, match } = found;
+        const apply = async (target: MatchTarget) => {
+            let applied = 0;
+            await this.app.vault.process(file, text => {
+                const result = applyLinks(text, [{ ...match, target }], this.linkFormatter(file.path));
+                applied = result.applied;
+                return result.text;
+            });
+            if (applied === 0) new Notice("This mention changed since the note was rendered.");
+        };
+        if (choose && match.candidates.length > 1) new TargetChooserModal(this.app, match.word, match.candidates, apply).open();
+        else await apply(match.target);
+    }
+
+    async ignoreInReading(span: HTMLElement) {
+        const found = await this.getReadingMatchAt(span);
+        if (!found) return new Notice("This mention changed since the note was rendered.");
+        const { file, text, match } = found;
+        const { before, after } = occurrenceContext(text, match.start, match.end);
+        await this.addIgnoreRule({ scope: "occurrence", term: match.key, sourcePath: file.path, before, after, created: Date.now() });
+    }
+
+    // Reading mode re-renders sections often; the same paragraph gives the same matches until the index changes
+    getReadingMatches(file: TFile, text: string): LinkMatch[] {
+        const texts = remember(this.readingMatchCache, file.path, this.readingMatchCache.get(file.path) ?? new Map<string, LinkMatch[]>(), NOTE_CACHE_SIZE);
+        const cached = texts.get(text);
+        if (cached) return cached;
+        if (texts.size >= READING_CACHE_TEXTS) texts.clear();
+        const matches = this.findMatches(text, file);
+        texts.set(text, matches);
+        return matches;
+    }
+
     shouldSkipNode(node: Node) {
         let parent = node.parentNode as HTMLElement;
         while (parent && parent !== document.body) {
             if (["A", "PRE", "CODE", "STYLE", "SCRIPT", "TEXTAREA"].includes(parent.tagName)) return true;
             if (parent.classList?.contains("cm-virtual-link") || parent.classList?.contains("lazy-reading-link")) return true;
+            if (parent.classList?.contains("math") || parent.classList?.contains("callout-title") || parent.tagName === "MJX-CONTAINER") return true;
+            if (!this.settings.highlightInHeadings && /^H[1-6]$/.test(parent.tagName)) return true;
+            if (!this.settings.highlightInTables && parent.tagName === "TABLE") return true;
+            if (!this.settings.highlightInCallouts && parent.classList?.contains("callout")) return true;
             parent = parent.parentNode as HTMLElement;
         }
         return false;
@@ -461,49 +973,94 @@ export default class LazyLinksPlugin extends Plugin {
 
     /* --- INTERACTIONS --- */
 
+    // Only highlighted mentions count: code, URLs, tags and math are excluded like in the editor
     getMatchAtCursor(editor: Editor, position: EditorPosition) {
-        const line = editor.getLine(position.line);
-        const wordRegex = /[\p{L}\d]+/gu;
-        let match;
-        const tokens = [];
-        while ((match = wordRegex.exec(line)) !== null) {
-            tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
-        }
-        
-        const hitIndex = tokens.findIndex(t => position.ch >= t.start && position.ch <= t.end);
-        if (hitIndex === -1) return null;
+        const file = this.getFileForView(editor);
+        if (!file) return null;
+        const lineFrom = editor.posToOffset({ line: position.line, ch: 0 });
+        const hit = this.getLineMatches(editor, position.line, file).find(m => position.ch >= m.start - lineFrom && position.ch <= m.end - lineFrom);
+        if (!hit) return null;
+        return { word: hit.word, from: {line: position.line, ch: hit.start - lineFrom}, to: {line: position.line, ch: hit.end - lineFrom}, target: hit.target, candidates: hit.candidates, key: hit.key };
+    }
 
-        const selfNames = this.getSelfNames(this.getFileForView(editor as any) || new TFile());
-        
-        // Search backwards a bit to find phrases
-        const startSearch = Math.max(0, hitIndex - 5);
-        for (let i = startSearch; i <= hitIndex; i++) {
-            const res = this.phraseTrie.findLongestMatch(tokens, i, selfNames, this.settings, false);
-            if (res.target && i + res.length > hitIndex) {
-                 const startT = tokens[i];
-                 const endT = tokens[i + res.length - 1];
-                 return { word: line.substring(startT.start, endT.end), from: {line: position.line, ch: startT.start}, to: {line: position.line, ch: endT.end}, target: res.target };
-            }
-        }
-        // Fallback single
-        const token = tokens[hitIndex];
-        const single = this.findBestMatchSingle(token.text, selfNames, false);
-        if (single.target) {
-            return { word: token.text, from: {line: position.line, ch: token.start}, to: {line: position.line, ch: token.end}, target: single.target };
-        }
-        return null;
+    // Matches on one editor line, in document offsets
+    getLineMatches(editor: Editor, lineNo: number, file: TFile): LinkMatch[] {
+        const line = editor.getLine(lineNo);
+        const lineFrom = editor.posToOffset({ line: lineNo, ch: 0 });
+        // @ts-ignore
+        const cm: EditorView | undefined = editor.cm;
+        const zones = cm ? editorZones(cm.state, lineFrom, lineFrom + line.length) : findInlineZones(line, lineFrom);
+        return this.findMatches(line, file, { offset: lineFrom, exclude: excludedZones(zones, this.settings) });
+    }
+
+    // Every unlinked mention in the editor's current text
+    getNoteMatches(editor: Editor, file: TFile): LinkMatch[] {
+        return this.getTextMatches(file, editor.getValue());
+    }
+
+    // Whole-note matches, reused until the text or the index changes
+    getTextMatches(file: TFile, text: string): LinkMatch[] {
+        const cached = this.noteMatchCache.get(file.path);
+        if (cached && cached.text === text) return remember(this.noteMatchCache, file.path, cached, NOTE_CACHE_SIZE).matches;
+        const matches = this.findMatches(text, file, { exclude: this.getExclusionZones(file, text) });
+        return remember(this.noteMatchCache, file.path, { text, matches }, NOTE_CACHE_SIZE).matches;
+    }
+
+    jumpTo(editor: Editor, m: LinkMatch) {
+        const from = editor.offsetToPos(m.start);
+        editor.setSelection(from, editor.offsetToPos(m.end));
+        editor.scrollIntoView({ from, to: from }, true);
+    }
+
+    async ignoreWord(word: string) {
+        this.settings.ignoredWords = [...this.settings.ignoredWords, word.toLowerCase()];
+        await this.saveSettings();
+        this.rebuildIndex();
+        new Notice(`"${word}" ignored.`);
+    }
+
+    // Remembers the text around the mention on its line, so the rule still finds it after edits elsewhere
+    ignoreOccurrence(file: TFile, lineText: string, info: { from: EditorPosition, to: EditorPosition, key: string }) {
+        const { before, after } = occurrenceContext(lineText, info.from.ch, info.to.ch);
+        return this.addIgnoreRule({ scope: "occurrence", term: info.key, sourcePath: file.path, before, after, created: Date.now() });
+    }
+
+    async addIgnoreRule(rule: IgnoreRule) {
+        this.settings.ignoreRules = [...this.settings.ignoreRules, rule];
+        await this.saveSettings();
+        this.refreshEditors();
+        new Notice(`Ignored: ${describeIgnore(rule)}`);
+    }
+
+    async removeIgnoreRule(rule: IgnoreRule) {
+        this.settings.ignoreRules = this.settings.ignoreRules.filter(r => r !== rule);
+        await this.saveSettings();
+        this.refreshEditors();
+    }
+
+    // The mention ending exactly at the cursor, if any (what was just typed)
+    getMatchEndingAt(editor: Editor, cursor: EditorPosition, file: TFile): LinkMatch | null {
+        return matchEndingAt(this.getLineMatches(editor, cursor.line, file), editor.posToOffset(cursor));
+    }
+
+    isFirstMention(text: string, file: TFile, m: LinkMatch): boolean {
+        const before = text.substring(0, m.start);
+        return isFirstMention(this.findMatches(before, file, { exclude: this.getExclusionZones(file, before) }), m);
     }
 
     convertLink(editor: Editor, info: any, target: any) {
-        const filePart = target.file.basename;
-        const linkPath = target.subpath ? `${filePart}${target.subpath}` : filePart;
-        let text = "";
-        if (info.word.toLowerCase() === target.actualName.toLowerCase() && !target.subpath) {
-            text = `[[${linkPath}]]`;
-        } else {
-            text = `[[${linkPath}|${info.word}]]`;
+        // A stale position (the text was edited since the mention was found) would overwrite whatever is there now
+        if (editor.getRange(info.from, info.to) !== info.word) {
+            this.view?.refresh();
+            return;
         }
-        editor.replaceRange(text, info.from, info.to);
+        const format = this.linkFormatter(this.getFileForView(editor)?.path ?? "");
+        editor.replaceRange(format(info.word, target), info.from, info.to);
+    }
+
+    // Wikilink or markdown link, shortest/relative/absolute path: whatever the vault's "Files & links" settings ask for
+    linkFormatter(sourcePath: string): LinkFormatter {
+        return (word, target) => this.app.fileManager.generateMarkdownLink(target.file, sourcePath, target.subpath ?? "", linkAlias(word, target));
     }
 
     getFileForView(editor: any): TFile | null {
@@ -515,52 +1072,106 @@ export default class LazyLinksPlugin extends Plugin {
         return found;
     }
 
-    showPreview(element: HTMLElement, evt: any) {
-        if (this.previewTimeout) clearTimeout(this.previewTimeout);
-        this.previewTimeout = setTimeout(() => {
-            const target = element.getAttribute('data-link-target');
-            if (target) {
-                const file = this.app.metadataCache.getFirstLinkpathDest(target, "");
-                if (file) this.createPreviewPopup(element, file);
-            }
-        }, 300);
+    // The targeted section or block (or the note body without frontmatter) under the note's name and aliases
+    async fillPreview(content: HTMLElement, anchor: HTMLElement, component: Component): Promise<PreviewActions | null> {
+        const file = this.resolveTargetFile(anchor.getAttribute('data-link-target') ?? "");
+        if (!file) return null;
+        const subpath = anchor.getAttribute('data-link-subpath') ?? "";
+        const actions: PreviewActions = {
+            ...this.mentionActions(anchor),
+            openInNewTab: () => this.app.workspace.getLeaf('tab').openFile(file, subpath ? { eState: { subpath } } : undefined)
+        };
+
+        content.createDiv({ text: subpath ? `${file.basename} > ${describeSubpath(subpath)}` : file.basename, cls: "lazy-preview-title" });
+        const kind = attachmentKind(file);
+        if (kind) {
+            await this.renderAttachmentPreview(content, file, kind, component);
+            return actions;
+        }
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const aliases = parseFrontMatterAliases(cache?.frontmatter) ?? [];
+        if (aliases.length > 0) {
+            const row = content.createDiv("lazy-preview-aliases");
+            aliases.forEach(a => row.createSpan({ text: a, cls: "lazy-preview-alias" }));
+        }
+
+        const data = await this.app.vault.cachedRead(file);
+        const section = subpath && cache ? resolveSubpath(cache, subpath) : null;
+        const from = section ? section.start.offset : bodyStart(data);
+        const to = section ? section.end?.offset ?? data.length : data.length;
+        const { text, truncated } = truncateMarkdown(data.substring(from, to).trim());
+        await MarkdownRenderer.render(this.app, text, content.createDiv(), file.path, component);
+        if (truncated) content.createDiv({ text: "…", cls: "lazy-preview-more" });
+        return actions;
     }
 
-    hidePreview() {
-        if (this.previewTimeout) clearTimeout(this.previewTimeout);
-        const existing = document.querySelector('.lazy-links-preview-popup');
-        if (existing) {
-            existing.classList.add('lazy-preview-hiding');
-            setTimeout(() => existing.remove(), 200);
+    // Reading highlights know their source offset; editor highlights are located from their place in the DOM when hovered
+    mentionActions(anchor: HTMLElement): { link?: () => void, ignore?: () => void } {
+        if (anchor.matches('.lazy-reading-link[data-source-start]')) {
+            return { link: () => this.linkInReading(anchor, false), ignore: () => this.ignoreInReading(anchor) };
         }
+        const view = this.app.workspace.getLeavesOfType("markdown").map(l => l.view).find(v => v.containerEl.contains(anchor));
+        if (!(view instanceof MarkdownView) || !view.file) return {};
+        const file = view.file, editor = view.editor;
+        // @ts-ignore
+        const cm: EditorView | undefined = editor.cm;
+        if (!cm) return {};
+        const pos = cm.posAtDOM(anchor);
+        const find = () => this.getNoteMatches(editor, file).find(m => m.start <= pos && pos < m.end);
+        return {
+            link: () => {
+                const m = find();
+                if (m) this.linkInEditor(editor, file, [m]);
+            },
+            ignore: () => {
+                const m = find();
+                if (!m) return;
+                const from = editor.offsetToPos(m.start);
+                this.ignoreOccurrence(file, editor.getLine(from.line), { from, to: editor.offsetToPos(m.end), key: m.key });
+            }
+        };
     }
 
-    async createPreviewPopup(element: HTMLElement, file: TFile) {
-        this.hidePreview(); // Clear others
-        const popup = document.createElement('div');
-        popup.className = 'lazy-links-preview-popup popover';
-        const content = popup.createDiv('lazy-preview-content markdown-rendered');
-        document.body.appendChild(popup);
+    // The image itself, the first page of a PDF, the text on a canvas, or just the file's name and size
+    async renderAttachmentPreview(content: HTMLElement, file: TFile, kind: AttachmentKind, component: Component) {
+        if (kind === "image") {
+            content.createEl("img", { cls: "lazy-preview-image", attr: { src: this.app.vault.getResourcePath(file), alt: file.name } });
+        } else if (kind === "canvas") {
+            const items = canvasText(await this.app.vault.cachedRead(file));
+            if (items.length === 0) content.createDiv({ text: "Empty canvas.", cls: "lazy-empty-state" });
+            else await MarkdownRenderer.render(this.app, items.map(t => `- ${t.replace(/\s*\n\s*/g, " ")}`).join("\n"), content, file.path, component);
+        } else if (kind === "pdf") {
+            const pdfjs = await loadPdfJs();
+            const pdf = await pdfjs.getDocument({ data: await this.app.vault.readBinary(file) }).promise;
+            const page = await pdf.getPage(1);
+            const viewport = page.getViewport({ scale: 320 / page.getViewport({ scale: 1 }).width });
+            const canvas = content.createEl("canvas", { cls: "lazy-preview-pdf" });
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            await page.render({ canvasContext: canvas.getContext("2d"), viewport }).promise;
+        } else {
+            content.createDiv({ text: `${file.name} · ${Math.max(1, Math.round(file.stat.size / 1024))} KB` });
+        }
+    }
 
-        try {
-            const data = await this.app.vault.read(file);
-            MarkdownRenderer.render(this.app, data.slice(0, 500) + "...", content, file.path, this);
-        } catch(e) {}
+    // Extra classes so attachment targets can be styled apart from notes
+    targetClass(target: MatchTarget): string {
+        const kind = attachmentKind(target.file);
+        return kind ? ` lazy-target-attachment lazy-target-${kind}` : "";
+    }
 
-        const rect = element.getBoundingClientRect();
-        let left = rect.left;
-        if (left + 350 > window.innerWidth) left = window.innerWidth - 370;
-        
-        popup.style.top = `${rect.bottom + 10}px`;
-        popup.style.left = `${left}px`;
-        requestAnimationFrame(() => popup.classList.add('lazy-preview-visible'));
+    // "![[Diagram.png]]" instead of a link, for attachments picked from the menu
+    embedLink(editor: Editor, info: { from: EditorPosition, to: EditorPosition }, target: MatchTarget) {
+        const sourcePath = this.getFileForView(editor)?.path ?? "";
+        editor.replaceRange("!" + this.app.fileManager.generateMarkdownLink(target.file, sourcePath), info.from, info.to);
     }
 
-    async openFile(target: string, evt: MouseEvent) {
-        const file = this.app.metadataCache.getFirstLinkpathDest(target, "");
+    async openFile(target: string, evt: MouseEvent, subpath = "") {
+        const file = this.resolveTargetFile(target);
         if (file) {
             const leaf = (evt.ctrlKey || evt.metaKey) ? this.app.workspace.getLeaf('tab') : this.app.workspace.getLeaf(false);
-            leaf.openFile(file);
+            leaf.openFile(file, subpath ? { eState: { subpath } } : undefined);
         }
     }
 
@@ -596,6 +1207,24 @@ export default class LazyLinksPlugin extends Plugin {
 class LazyLinksView extends ItemView {
     plugin: LazyLinksPlugin;
     refreshDebounce: Function;
+    mode: "note" | "mentions" | "vault" = "note";
+    scanFolder = "";
+    scanResults: PendingLinks[] | null = null;
+    scanning = false;
+    selected = new Set<string>(); // "path:offset" of ticked vault matches
+    applyButton: HTMLButtonElement | null = null;
+    // Note mode, kept across refreshes
+    noteFile: TFile | null = null;
+    noteSelected = new Set<string>(); // "offset:word" of ticked mentions in noteFile
+    query = "";
+    sortBy: SortBy = "count";
+    groupBy: GroupBy = "target";
+    collapsed = new Set<string>(); // Group keys folded away
+    expanded = new Set<string>(); // Group keys showing every mention
+    searchInput: HTMLInputElement | null = null;
+    // Mentions mode: unlinked mentions of the active note elsewhere
+    mentionsTarget: TFile | null = null;
+    mentionResults: PendingLinks[] | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: LazyLinksPlugin) {
         super(leaf);
@@ -606,12 +1235,32 @@ class LazyLinksView extends ItemView {
     getDisplayText() { return "Lazy Links Explorer"; }
     getIcon() { return "link"; }
     async onOpen() { this.render(); }
-    refresh() { this.refreshDebounce(); }
+    refresh() {
+        // Vault results only change on a new scan, mentions when another note becomes active
+        if (this.mode === "note") this.refreshDebounce();
+        else if (this.mode === "mentions" && this.mentionsFile() !== this.mentionsTarget) this.refreshDebounce();
+    }
+
+    // The active note, unless it is one of the listed sources being visited from the list
+    mentionsFile(): TFile | null {
+        const active = this.app.workspace.getActiveFile();
+        if (active && this.mentionsTarget && this.mentionResults?.some(r => r.file === active)) return this.mentionsTarget;
+        return active;
+    }
 
     async render() {
         const container = this.contentEl;
+        const scrollTop = container.scrollTop;
+        const searchFocused = !!this.searchInput && document.activeElement === this.searchInput;
         container.empty();
         container.addClass("lazy-links-sidebar");
+        this.renderModeSwitch(container);
+
+        if (this.mode === "vault" || this.mode === "mentions") {
+            if (this.mode === "vault") this.renderVault(container); else this.renderMentions(container);
+            container.scrollTop = scrollTop;
+            return;
+        }
         
         const file = this.app.workspace.getActiveFile();
         if (!file || file.extension !== "md") {
@@ -622,125 +1271,182 @@ class LazyLinksView extends ItemView {
         const view = this.app.workspace.getActiveViewOfType(MarkdownView);
         if (!view) return; // Wait for view to be ready
 
-        const text = view.editor.getValue();
-        const selfNames = this.plugin.getSelfNames(file);
-        
-        // Scan for matches manually (lines -> tokens -> matches)
-        const matches: any[] = [];
-        const lines = text.split("\n");
-        let offset = 0;
-        
-        // Ignore frontmatter
-        let startLine = 0;
-        const cache = this.app.metadataCache.getFileCache(file);
-        if (cache?.frontmatterPosition) {
-             offset = cache.frontmatterPosition.end.offset + 1; // approx
-             startLine = cache.frontmatterPosition.end.line + 1;
-        }
-
-        for (let i = startLine; i < lines.length; i++) {
-            const line = lines[i];
-            const tokens: any[] = [];
-            const regex = /[\p{L}\d]+/gu;
-            let match;
-            
-            // Calc absolute offset for line start
-            const lineStart = view.editor.posToOffset({line: i, ch: 0});
-            
-            // Ignore links in line
-            const ignore = [];
-            const linkRegex = /\[\[.*?\]\]|\[.*?\]\(.*?\)/g;
-            while ((match = linkRegex.exec(line)) !== null) ignore.push({s: match.index, e: match.index + match[0].length});
-
-            while ((match = regex.exec(line)) !== null) {
-                if (!ignore.some(r => match.index >= r.s && match.index + match[0].length <= r.e)) {
-                    tokens.push({text: match[0], start: lineStart + match.index, end: lineStart + match.index + match[0].length});
-                }
-            }
-            
-            let tIdx = 0;
-            while (tIdx < tokens.length) {
-                const res = this.plugin.phraseTrie.findLongestMatch(tokens, tIdx, selfNames, this.plugin.settings, false);
-                if (res.target && res.length > 0) {
-                     const s = tokens[tIdx];
-                     const e = tokens[tIdx + res.length - 1];
-                     matches.push({ word: text.substring(s.start, e.end), target: res.target, start: s.start, end: e.end });
-                     tIdx += res.length;
-                } else {
-                     const s = tokens[tIdx];
-                     const single = this.plugin.findBestMatchSingle(s.text, selfNames, false);
-                     if (single.target) matches.push({ word: s.text, target: single.target, start: s.start, end: s.end });
-                     tIdx++;
-                }
-            }
+        if (!this.plugin.isSourceEnabled(file)) {
+            container.createDiv({ text: "Lazy Links is turned off for this note.", cls: "lazy-empty-state" });
+            return;
         }
 
+        // Selections refer to offsets in one note
+        if (this.noteFile !== file) {
+            this.noteFile = file;
+            this.noteSelected.clear();
+        }
+
+        const text = view.editor.getValue();
+        const matches = this.plugin.getTextMatches(file, text);
+
         if (matches.length === 0) {
             container.createDiv({ text: "No unlinked mentions found.", cls: "lazy-empty-state" });
             return;
         }
 
-        // Grouping
-        const groups = new Map();
-        matches.forEach(m => {
-            const p = m.target.file.path;
-            if (!groups.has(p)) groups.set(p, []);
-            groups.get(p).push(m);
-        });
+        this.renderNoteToolbar(container, view, file, text, matches);
+        const list = container.createDiv("lazy-note-list");
+        this.renderNoteList(list, view, file, text, matches);
 
-        groups.forEach((group, path) => {
-             const target = group[0].target;
-             const div = container.createDiv("lazy-file-group");
-             
-             // Header
-             const h = div.createDiv("lazy-file-header");
-             h.createSpan({ text: target.file.basename });
-             h.createSpan({ text: `${group.length}`, cls: "lazy-file-count" });
-             
-             const content = div.createDiv();
-             h.onclick = () => { content.style.display = content.style.display === 'none' ? 'block' : 'none'; };
-
-             // Matches
-             group.forEach((m: any, idx: number) => {
-                 if (idx > 0 && idx === 1) { // Hide after first, show "Show more"
-                     const moreBtn = content.createEl("button", { text: `See ${group.length - 1} more...`, cls: "lazy-btn-secondary" });
-                     const hiddenDiv = content.createDiv({ cls: "lazy-hidden-matches" });
-                     hiddenDiv.style.display = "none";
-                     moreBtn.onclick = () => { hiddenDiv.style.display = "block"; moreBtn.remove(); };
-                     
-                     // "Link All" button inside hidden
-                     const linkAll = hiddenDiv.createEl("button", { text: "Link All Matches", cls: "lazy-btn-primary lazy-btn-block" });
-                     linkAll.onclick = (e) => { e.stopPropagation(); this.convertAll(view, group, target); };
-                     
-                     // Append remaining matches to hiddenDiv
-                     this.renderMatch(hiddenDiv, m, view, target, text);
-                     return; 
-                 }
-                 
-                 // If idx > 1, append to hidden div if exists, else just render
-                 const containerToUse = (idx > 0) ? content.querySelector(".lazy-hidden-matches") || content : content;
-                 this.renderMatch(containerToUse as HTMLElement, m, view, target, text);
-             });
-        });
+        container.scrollTop = scrollTop;
+        if (searchFocused) this.searchInput?.focus();
     }
 
-    renderMatch(container: HTMLElement, m: any, view: MarkdownView, target: any, fullText: string) {
-        const item = container.createDiv("lazy-match-item");
-        const ctxPre = fullText.substring(Math.max(0, m.start - 20), m.start);
-        const ctxPost = fullText.substring(m.end, Math.min(fullText.length, m.end + 20));
-        
-        const ctxDiv = item.createDiv("lazy-match-context");
-        ctxDiv.innerHTML = `...${ctxPre}<span class="lazy-match-highlight">${m.word}</span>${ctxPost}...`;
+    renderNoteToolbar(container: HTMLElement, view: MarkdownView, file: TFile, text: string, matches: LinkMatch[]) {
+        const toolbar = container.createDiv("lazy-note-toolbar");
+        this.searchInput = toolbar.createEl("input", { type: "search", placeholder: "Filter mentions", value: this.query, cls: "lazy-note-search" });
+        this.searchInput.oninput = () => {
+            this.query = this.searchInput!.value;
+            const list = container.querySelector(".lazy-note-list") as HTMLElement | null;
+            if (list) this.renderNoteList(list, view, file, text, matches);
+        };
+
+        const select = <T extends string>(options: Record<T, string>, value: T, onChange: (v: T) => void) => {
+            const el = toolbar.createEl("select", { cls: "dropdown lazy-note-select" });
+            (Object.keys(options) as T[]).forEach(k => el.createEl("option", { text: options[k], value: k }));
+            el.value = value;
+            el.onchange = () => { onChange(el.value as T); this.render(); };
+        };
+        select<SortBy>({ count: "Most mentions", name: "Name", position: "First position", score: "Relevance" }, this.sortBy, v => this.sortBy = v);
+        select<GroupBy>({ target: "By note", heading: "By heading" }, this.groupBy, v => this.groupBy = v);
+    }
+
+    renderNoteList(list: HTMLElement, view: MarkdownView, file: TFile, text: string, matches: LinkMatch[]) {
+        list.empty();
+        const groups = groupMatches(matches, this.groupBy, this.sortBy, this.query);
+        if (groups.length === 0) {
+            list.createDiv({ text: "No mentions match the filter.", cls: "lazy-empty-state" });
+            return;
+        }
+
+        // Bulk actions over the ticked mentions
+        const bulk = list.createDiv("lazy-link-all-container lazy-scan-actions");
+        const visible = groups.flatMap(g => g.matches);
+        const selectedMatches = () => visible.filter(m => this.noteSelected.has(this.noteMatchKey(m)));
+        const linkSelected = bulk.createEl("button", { cls: "lazy-btn-block" });
+        const updateBulk = () => {
+            const n = selectedMatches().length;
+            linkSelected.setText(`Link ${n} selected`);
+            linkSelected.disabled = n === 0;
+        };
+        linkSelected.onclick = () => {
+            this.plugin.linkInEditor(view.editor, file, selectedMatches());
+            this.noteSelected.clear();
+        };
+        bulk.createEl("button", { text: "Select all", cls: "lazy-btn-secondary" }).onclick = () => {
+            visible.forEach(m => this.noteSelected.add(this.noteMatchKey(m)));
+            this.renderNoteList(list, view, file, text, matches);
+        };
+        updateBulk();
+
+        for (const group of groups) {
+            const div = list.createDiv("lazy-file-group");
+
+            // Header
+            const h = div.createDiv("lazy-file-header");
+            const groupBox = h.createEl("input", { type: "checkbox", cls: "lazy-scan-checkbox" });
+            const kind = attachmentKind(group.target.file);
+            if (kind) setIcon(h.createSpan("lazy-target-icon"), attachmentIcon(kind));
+            h.createSpan({ text: group.label });
+            h.setAttr("title", group.target.file.path);
+            const best = group.matches.find(m => m.relevance?.score === group.score)?.relevance;
+            if (best) {
+                const badge = h.createSpan({ text: `${Math.round(best.score * 100)}%`, cls: "lazy-relevance-badge" });
+                badge.setAttr("title", describeRelevance(best));
+                if (group.matches.every(m => this.plugin.isLowRelevance(m))) h.addClass("lazy-low-relevance");
+            }
+            h.createSpan({ text: `${group.matches.length}`, cls: "lazy-file-count" });
+
+            const content = div.createDiv();
+            if (this.collapsed.has(group.key)) content.style.display = "none";
+            h.onclick = () => {
+                if (this.collapsed.has(group.key)) this.collapsed.delete(group.key); else this.collapsed.add(group.key);
+                content.style.display = this.collapsed.has(group.key) ? "none" : "block";
+            };
+
+            const groupActions = content.createDiv("lazy-group-actions");
+            const linkFirst = groupActions.createEl("button", { text: "Link first mention", cls: "lazy-btn-secondary" });
+            linkFirst.onclick = (e) => { e.stopPropagation(); this.plugin.linkInEditor(view.editor, file, [group.matches[0]]); };
+            const linkAll = groupActions.createEl("button", { text: `Link all ${group.matches.length}`, cls: "lazy-btn-secondary" });
+            linkAll.onclick = (e) => { e.stopPropagation(); this.plugin.linkInEditor(view.editor, file, group.matches); };
+
+            const boxes: HTMLInputElement[] = [];
+            const syncGroupBox = () => { groupBox.checked = boxes.length > 0 && boxes.every(b => b.checked); updateBulk(); };
+            groupBox.onclick = (e) => e.stopPropagation();
+            groupBox.onchange = () => {
+                group.matches.forEach(m => { if (groupBox.checked) this.noteSelected.add(this.noteMatchKey(m)); else this.noteSelected.delete(this.noteMatchKey(m)); });
+                boxes.forEach(b => b.checked = groupBox.checked);
+                updateBulk();
+            };
+
+            // First mention, the rest behind "See N more" unless expanded before
+            const expanded = this.expanded.has(group.key);
+            group.matches.forEach((m, idx) => {
+                if (idx === 1 && !expanded) {
+                    const moreBtn = content.createEl("button", { text: `See ${group.matches.length - 1} more...`, cls: "lazy-btn-secondary" });
+                    const hiddenDiv = content.createDiv({ cls: "lazy-hidden-matches" });
+                    hiddenDiv.style.display = "none";
+                    moreBtn.onclick = () => { hiddenDiv.style.display = "block"; moreBtn.remove(); this.expanded.add(group.key); };
+                }
+                const target = idx > 0 && !expanded ? content.querySelector(".lazy-hidden-matches") as HTMLElement : content;
+                boxes.push(this.renderMatch(target, m, view, file, text, syncGroupBox));
+            });
+            syncGroupBox();
+        }
+    }
+
+    noteMatchKey(m: LinkMatch) { return `${m.start}:${m.word}`; }
+
+    renderMatch(container: HTMLElement, m: LinkMatch, view: MarkdownView, file: TFile, fullText: string, onToggle: () => void): HTMLInputElement {
+        const item = container.createDiv("lazy-match-item lazy-scan-item");
+        const key = this.noteMatchKey(m);
+        const box = item.createEl("input", { type: "checkbox", cls: "lazy-scan-checkbox" });
+        box.checked = this.noteSelected.has(key);
+        box.onclick = (e) => e.stopPropagation();
+        box.onchange = () => {
+            if (box.checked) this.noteSelected.add(key); else this.noteSelected.delete(key);
+            onToggle();
+        };
+
+        const body = item.createDiv();
+        const ctxDiv = body.createDiv("lazy-match-context");
+        ctxDiv.createSpan({ text: `...${fullText.substring(Math.max(0, m.start - 20), m.start)}` });
+        ctxDiv.createSpan({ text: m.word, cls: "lazy-match-highlight" });
+        ctxDiv.createSpan({ text: `${fullText.substring(m.end, Math.min(fullText.length, m.end + 20))}...` });
+        if (m.target.source && m.target.source !== "name") body.createDiv({ text: `via ${describeTerm(m.target)}`, cls: "lazy-match-term" });
         
-        const actions = item.createDiv("lazy-match-actions");
+        const actions = body.createDiv("lazy-match-actions");
         const btn = actions.createEl("button", { cls: "lazy-link-btn" });
         setIcon(btn, "link"); btn.createSpan({text: "Link"});
-        
         btn.onclick = (e) => {
             e.stopPropagation();
-            const start = view.editor.offsetToPos(m.start);
-            const end = view.editor.offsetToPos(m.end);
-            this.plugin.convertLink(view.editor, {word: m.word, from: start, to: end}, target);
+            this.plugin.convertLink(view.editor, {word: m.word, from: view.editor.offsetToPos(m.start), to: view.editor.offsetToPos(m.end)}, m.target);
+        };
+
+        if (m.candidates.length > 1) {
+            const chooseBtn = actions.createEl("button", { cls: "lazy-link-btn" });
+            setIcon(chooseBtn, "list"); chooseBtn.createSpan({text: `Link to… (${m.candidates.length})`});
+            chooseBtn.onclick = (e) => {
+                e.stopPropagation();
+                new TargetChooserModal(this.app, m.word, m.candidates, t => {
+                    this.plugin.convertLink(view.editor, {word: m.word, from: view.editor.offsetToPos(m.start), to: view.editor.offsetToPos(m.end)}, t);
+                }).open();
+            };
+        }
+
+        const ignoreBtn = actions.createEl("button", { cls: "lazy-link-btn" });
+        setIcon(ignoreBtn, "eye-off"); ignoreBtn.createSpan({text: "Ignore"});
+        ignoreBtn.setAttr("title", "Ignore this mention");
+        ignoreBtn.onclick = (e) => {
+            e.stopPropagation();
+            const from = view.editor.offsetToPos(m.start);
+            this.plugin.ignoreOccurrence(file, view.editor.getLine(from.line), { from, to: view.editor.offsetToPos(m.end), key: m.key });
         };
         
         item.onclick = () => {
@@ -748,17 +1454,289 @@ class LazyLinksView extends ItemView {
              view.editor.setCursor(pos);
              view.editor.scrollIntoView({from: pos, to: pos}, true);
         };
+        return box;
     }
 
-    convertAll(view: MarkdownView, matches: any[], target: any) {
-        // Sort descending
-        matches.sort((a, b) => b.start - a.start);
-        matches.forEach(m => {
-            const start = view.editor.offsetToPos(m.start);
-            const end = view.editor.offsetToPos(m.end);
-            this.plugin.convertLink(view.editor, {word: m.word, from: start, to: end}, target);
+    renderModeSwitch(container: HTMLElement) {
+        const bar = container.createDiv("lazy-mode-switch");
+        const addMode = (mode: "note" | "mentions" | "vault", label: string, icon: string) => {
+            const btn = bar.createEl("button", { cls: mode === this.mode ? "lazy-mode-btn is-active" : "lazy-mode-btn" });
+            setIcon(btn, icon); btn.createSpan({ text: label });
+            btn.onclick = () => { this.mode = mode; this.render(); };
+        };
+        addMode("note", "Current note", "file-text");
+        addMode("mentions", "Mentions", "arrow-left-right");
+        addMode("vault", "Vault", "vault");
+    }
+
+    /* --- MENTIONS OF THIS NOTE --- */
+
+    renderMentions(container: HTMLElement) {
+        const file = this.mentionsFile();
+        if (!file || file.extension !== "md") {
+            container.createDiv({ text: "No active markdown file.", cls: "lazy-empty-state" });
+            return;
+        }
+        if (this.mentionsTarget !== file) {
+            this.loadMentions(file);
+            return;
+        }
+        if (!this.mentionResults) {
+            container.createDiv({ text: `Searching the vault for mentions of ${file.basename}...`, cls: "lazy-empty-state" });
+            return;
+        }
+        if (this.mentionResults.length === 0) {
+            container.createDiv({ text: `No unlinked mentions of ${file.basename} elsewhere.`, cls: "lazy-empty-state" });
+            return;
+        }
+
+        const results = this.mentionResults;
+        const total = results.reduce((n, r) => n + r.matches.length, 0);
+        const actions = container.createDiv("lazy-link-all-container lazy-scan-actions");
+        actions.createDiv({ text: `${total} unlinked mention${total === 1 ? "" : "s"} of ${file.basename} in ${results.length} note${results.length === 1 ? "" : "s"}`, cls: "lazy-mentions-summary" });
+        actions.createEl("button", { text: "Link all", cls: "lazy-btn-block" }).onclick = () => {
+            new LinkPreviewModal(this.app, results, async () => {
+                await this.plugin.applyPendingLinks(results);
+                this.loadMentions(file);
+            }, f => this.plugin.linkFormatter(f.path)).open();
+        };
+
+        for (const result of results) {
+            const div = container.createDiv("lazy-file-group");
+            const h = div.createDiv("lazy-file-header");
+            h.createSpan({ text: result.file.path });
+            h.createSpan({ text: `${result.matches.length}`, cls: "lazy-file-count" });
+            const content = div.createDiv();
+            h.onclick = () => { content.style.display = content.style.display === 'none' ? 'block' : 'none'; };
+            result.matches.forEach(m => this.renderMention(content, result, m, file));
+        }
+    }
+
+    renderMention(container: HTMLElement, result: PendingLinks, m: LinkMatch, target: TFile) {
+        const item = container.createDiv("lazy-match-item");
+        const ctxDiv = item.createDiv("lazy-match-context");
+        ctxDiv.createSpan({ text: `...${result.text.substring(Math.max(0, m.start - 20), m.start)}` });
+        ctxDiv.createSpan({ text: m.word, cls: "lazy-match-highlight" });
+        ctxDiv.createSpan({ text: `${result.text.substring(m.end, Math.min(result.text.length, m.end + 20))}...` });
+        if (m.target.source && m.target.source !== "name") item.createDiv({ text: `via ${describeTerm(m.target)}`, cls: "lazy-match-term" });
+
+        const actions = item.createDiv("lazy-match-actions");
+        const btn = actions.createEl("button", { cls: "lazy-link-btn" });
+        setIcon(btn, "link"); btn.createSpan({ text: "Link" });
+        btn.onclick = async (e) => {
+            e.stopPropagation();
+            await this.plugin.applyPendingLinks([{ ...result, matches: [m] }]);
+            this.loadMentions(target);
+        };
+
+        item.onclick = async () => {
+            const leaf = this.app.workspace.getLeaf('tab');
+            await leaf.openFile(result.file);
+            if (leaf.view instanceof MarkdownView) {
+                const pos = leaf.view.editor.offsetToPos(m.start);
+                leaf.view.editor.setCursor(pos);
+                leaf.view.editor.scrollIntoView({from: pos, to: pos}, true);
+            }
+        };
+    }
+
+    async loadMentions(file: TFile) {
+        this.mentionsTarget = file;
+        this.mentionResults = null;
+        this.render();
+        const results = await this.plugin.findMentionsOf(file);
+        if (this.mentionsTarget !== file) return; // Another note became active meanwhile
+        this.mentionResults = results;
+        this.render();
+    }
+
+    /* --- VAULT SCAN MODE --- */
+
+    renderVault(container: HTMLElement) {
+        const controls = container.createDiv("lazy-scan-controls");
+        const folderInput = controls.createEl("input", { type: "text", placeholder: "Folder (empty = whole vault)", value: this.scanFolder });
+        folderInput.oninput = () => { this.scanFolder = folderInput.value; };
+        const scanBtn = controls.createEl("button", { cls: "lazy-link-btn" });
+        setIcon(scanBtn, "search"); scanBtn.createSpan({ text: this.scanning ? "Scanning..." : "Scan" });
+        scanBtn.disabled = this.scanning;
+        scanBtn.onclick = () => this.runScan();
+
+        if (!this.scanResults) {
+            container.createDiv({ text: "Scan the vault or a folder for unlinked mentions.", cls: "lazy-empty-state" });
+            return;
+        }
+        if (this.scanResults.length === 0) {
+            container.createDiv({ text: "No unlinked mentions found.", cls: "lazy-empty-state" });
+            return;
+        }
+
+        const total = this.scanResults.reduce((n, r) => n + r.matches.length, 0);
+        const actions = container.createDiv("lazy-link-all-container lazy-scan-actions");
+        actions.createEl("button", { text: `Select all ${total}`, cls: "lazy-btn-secondary" }).onclick = () => {
+            this.scanResults!.forEach(r => r.matches.forEach(m => this.selected.add(this.matchKey(r.file, m))));
+            this.render();
+        };
+        this.applyButton = actions.createEl("button", { cls: "lazy-btn-block" });
+        this.applyButton.onclick = () => this.reviewSelected();
+        this.updateApplyButton();
+
+        for (const result of this.scanResults) {
+            const div = container.createDiv("lazy-file-group");
+            const h = div.createDiv("lazy-file-header");
+            const groupBox = h.createEl("input", { type: "checkbox", cls: "lazy-scan-checkbox" });
+            h.createSpan({ text: result.file.path });
+            h.createSpan({ text: `${result.matches.length}`, cls: "lazy-file-count" });
+
+            const content = div.createDiv();
+            h.onclick = () => { content.style.display = content.style.display === 'none' ? 'block' : 'none'; };
+
+            const boxes: HTMLInputElement[] = [];
+            const syncGroupBox = () => { groupBox.checked = boxes.every(b => b.checked); };
+            groupBox.onclick = (e) => e.stopPropagation();
+            groupBox.onchange = () => {
+                boxes.forEach(b => { b.checked = groupBox.checked; b.onchange?.(new Event("change")); });
+            };
+
+            // Group by target inside the source note
+            const byTarget = new Map<string, LinkMatch[]>();
+            result.matches.forEach(m => {
+                const key = m.target.file.path + (m.target.subpath || "");
+                if (!byTarget.has(key)) byTarget.set(key, []);
+                byTarget.get(key)!.push(m);
+            });
+            byTarget.forEach(group => {
+                const target = group[0].target;
+                const th = content.createDiv("lazy-target-header");
+                const kind = attachmentKind(target.file);
+                setIcon(th.createSpan(), kind ? attachmentIcon(kind) : "arrow-right");
+                th.createSpan({ text: target.subpath ? `${target.file.basename} > ${describeSubpath(target.subpath)}` : target.file.basename });
+                group.forEach(m => boxes.push(this.renderScanMatch(content, result, m, syncGroupBox)));
+            });
+            syncGroupBox();
+        }
+    }
+
+    renderScanMatch(container: HTMLElement, result: PendingLinks, m: LinkMatch, onToggle: () => void): HTMLInputElement {
+        const item = container.createDiv("lazy-match-item lazy-scan-item");
+        const key = this.matchKey(result.file, m);
+        const box = item.createEl("input", { type: "checkbox", cls: "lazy-scan-checkbox" });
+        box.checked = this.selected.has(key);
+        box.onclick = (e) => e.stopPropagation();
+        box.onchange = () => { this.setSelected(key, box.checked); onToggle(); };
+
+        const ctxDiv = item.createDiv("lazy-match-context");
+        ctxDiv.createSpan({ text: `...${result.text.substring(Math.max(0, m.start - 20), m.start)}` });
+        ctxDiv.createSpan({ text: m.word, cls: "lazy-match-highlight" });
+        ctxDiv.createSpan({ text: `${result.text.substring(m.end, Math.min(result.text.length, m.end + 20))}...` });
+        if (m.target.source && m.target.source !== "name") item.createDiv({ text: `via ${describeTerm(m.target)}`, cls: "lazy-match-term" });
+
+        // Ambiguous: the chosen candidate is what gets applied
+        if (m.candidates.length > 1) {
+            const chooseBtn = ctxDiv.createEl("button", { cls: "lazy-btn-secondary lazy-choose-target" });
+            chooseBtn.setText(`→ ${m.target.file.path}`);
+            chooseBtn.onclick = (e) => {
+                e.stopPropagation();
+                new TargetChooserModal(this.app, m.word, m.candidates, t => {
+                    m.target = t;
+                    chooseBtn.setText(`→ ${t.file.path}`);
+                }).open();
+            };
+        }
+
+        item.onclick = async () => {
+            const leaf = this.app.workspace.getLeaf(false);
+            await leaf.openFile(result.file);
+            if (leaf.view instanceof MarkdownView) {
+                const pos = leaf.view.editor.offsetToPos(m.start);
+                leaf.view.editor.setCursor(pos);
+                leaf.view.editor.scrollIntoView({from: pos, to: pos}, true);
+            }
+        };
+        return box;
+    }
+
+    matchKey(file: TFile, m: LinkMatch) { return `${file.path}:${m.start}`; }
+
+    setSelected(key: string, selected: boolean) {
+        if (selected) this.selected.add(key); else this.selected.delete(key);
+        this.updateApplyButton();
+    }
+
+    updateApplyButton() {
+        if (!this.applyButton) return;
+        this.applyButton.setText(`Review ${this.selected.size} selected`);
+        this.applyButton.disabled = this.selected.size === 0;
+    }
+
+    async runScan() {
+        this.scanning = true;
+        this.render();
+        try {
+            this.scanResults = await this.plugin.scanVault(this.scanFolder);
+        } finally {
+            this.scanning = false;
+        }
+        this.selected.clear();
+        this.render();
+    }
+
+    reviewSelected() {
+        if (!this.scanResults) return;
+        const changes = this.scanResults
+            .map(r => ({ ...r, matches: r.matches.filter(m => this.selected.has(this.matchKey(r.file, m))) }))
+            .filter(c => c.matches.length > 0);
+        if (changes.length === 0) return;
+        new LinkPreviewModal(this.app, changes, async () => {
+            await this.plugin.applyPendingLinks(changes);
+            await this.runScan();
+        }, file => this.plugin.linkFormatter(file.path)).open();
+    }
+}
+
+/* --- INLINE SUGGESTIONS --- */
+class LazyLinkSuggest extends EditorSuggest<LinkSuggestion> {
+    plugin: LazyLinksPlugin;
+    current: LinkMatch | null = null;
+
+    constructor(app: App, plugin: LazyLinksPlugin) {
+        super(app);
+        this.plugin = plugin;
+        // Tab converts too, like Enter
+        this.scope.register([], "Tab", (evt) => {
+            // @ts-ignore
+            this.suggestions.useSelectedItem(evt);
+            return false;
         });
     }
+
+    onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+        this.current = null;
+        if (!this.plugin.settings.suggestWhileTyping || !file) return null;
+        const m = this.plugin.getMatchEndingAt(editor, cursor, file);
+        if (!m) return null;
+        if (this.plugin.settings.suggestFirstMentionOnly && !this.plugin.isFirstMention(editor.getValue(), file, m)) return null;
+        this.current = m;
+        return { start: editor.offsetToPos(m.start), end: cursor, query: m.word };
+    }
+
+    getSuggestions(context: EditorSuggestContext): LinkSuggestion[] {
+        return suggestionsFor(this.current);
+    }
+
+    renderSuggestion(s: LinkSuggestion, el: HTMLElement) {
+        el.addClass("lazy-suggestion");
+        const { title, note } = suggestionText(s);
+        el.createDiv({ text: title, cls: "lazy-suggestion-title" });
+        if (note) el.createDiv({ text: note, cls: "lazy-suggestion-note" });
+    }
+
+    selectSuggestion(s: LinkSuggestion, evt: MouseEvent | KeyboardEvent) {
+        const context = this.context;
+        if (!context) return;
+        const format = this.plugin.linkFormatter(context.file.path);
+        context.editor.replaceRange(format(s.match.word, s.target), context.start, context.end);
+        this.close();
+    }
 }
 
 /* --- SETTINGS TAB --- */
@@ -790,8 +1768,289 @@ class LazyLinksSettingTab extends PluginSettingTab {
                  await this.plugin.saveSettings(); this.plugin.rebuildIndex();
              }));
 
+        new Setting(containerEl).setName("Suggest Links While Typing").setDesc("Offer \"Link to …\" right after typing a mention; Tab or Enter converts it.")
+            .addToggle(t => t.setValue(this.plugin.settings.suggestWhileTyping).onChange(async v => {
+                this.plugin.settings.suggestWhileTyping = v; await this.plugin.saveSettings();
+            }));
+        new Setting(containerEl).setName("Suggest First Mention Only").setDesc("Only suggest when the term is not already mentioned earlier in the note.")
+            .addToggle(t => t.setValue(this.plugin.settings.suggestFirstMentionOnly).onChange(async v => {
+                this.plugin.settings.suggestFirstMentionOnly = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl).setName("Auto-link").setDesc("Convert mentions without clicking: right after a word is typed, or when leaving the note or pressing Ctrl/Cmd+S.")
+            .addDropdown(d => d.addOption("off", "Off").addOption("word", "When a word is completed").addOption("leave", "When the note is saved or closed")
+                .setValue(this.plugin.settings.autoLinkMode).onChange(async v => {
+                    this.plugin.settings.autoLinkMode = v as "off" | "word" | "leave"; await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl).setName("Auto-link Mentions")
+            .addDropdown(d => d.addOption("first", "First mention of each note").addOption("all", "Every mention")
+                .setValue(this.plugin.settings.autoLinkMentions).onChange(async v => {
+                    this.plugin.settings.autoLinkMentions = v as "first" | "all"; await this.plugin.saveSettings();
+                }));
+        new Setting(containerEl).setName("Auto-link Switch").setDesc("Frontmatter key that turns auto-linking off for a note when set to off or false.")
+            .addText(t => t.setValue(this.plugin.settings.autoLinkSwitchKey).onChange(async v => {
+                this.plugin.settings.autoLinkSwitchKey = v.trim(); await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl).setName("Case-sensitive All-caps Names").setDesc("Names like IT or US only match when written in capitals. Per note, use lazy_case_sensitive: true or a list of names in frontmatter.")
+            .addToggle(t => t.setValue(this.plugin.settings.caseSensitiveAllCaps).onChange(async v => {
+                this.plugin.settings.caseSensitiveAllCaps = v; await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+            }));
+
         new Setting(containerEl).setName("Include Headers").addToggle(t => t.setValue(this.plugin.settings.includeHeaders).onChange(async v => {
              this.plugin.settings.includeHeaders = v; await this.plugin.saveSettings(); this.plugin.rebuildIndex();
         }));
+
+        new Setting(containerEl).setName("Include Blocks")
+            .setDesc("Blocks with a ^block-id that declare a term in a comment, e.g. %% lazy_term: Ownership %%, link straight to that block.")
+            .addToggle(t => t.setValue(this.plugin.settings.includeBlocks).onChange(async v => {
+                this.plugin.settings.includeBlocks = v; await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+            }));
+
+        new Setting(containerEl).setName("Include List Items")
+            .setDesc("List items with a ^block-id are matched by their label: a bold lead-in, the text before a colon, or the whole item when it is short.")
+            .addToggle(t => t.setValue(this.plugin.settings.includeListItems).onChange(async v => {
+                this.plugin.settings.includeListItems = v; await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+            }));
+
+        new Setting(containerEl).setName("Other File Types")
+            .setDesc("Extensions of attachments to link by file name, e.g. canvas, pdf, png. They get their own highlight, and can be embedded from the context menu.")
+            .addText(t => t.setPlaceholder("canvas, pdf").setValue(this.plugin.settings.attachmentExtensions.join(", ")).onChange(async v => {
+                this.plugin.settings.attachmentExtensions = parseExtensions(v); await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+            }));
+
+        new Setting(containerEl).setName("Partial Matching")
+            .setDesc("Affixes match note names at the start, end or middle of longer words. Word forms match inflections (plurals, verb endings) of every word in a name.")
+            .addDropdown(d => d.addOption("affix", "Affixes").addOption("morphology", "Word forms")
+                .setValue(this.plugin.settings.matchMode)
+                .onChange(async v => { this.plugin.settings.matchMode = v as "affix" | "morphology"; await this.plugin.saveSettings(); this.plugin.rebuildIndex(); this.display(); }));
+
+        if (this.plugin.settings.matchMode === "affix") {
+            const affixToggle = (name: string, key: "matchStart" | "matchEnd" | "matchMiddle") =>
+                new Setting(containerEl).setName(name).addToggle(t => t.setValue(this.plugin.settings[key]).onChange(async v => {
+                    this.plugin.settings[key] = v; await this.plugin.saveSettings(); this.plugin.refreshEditors();
+                }));
+            affixToggle("Match Start of Words", "matchStart");
+            affixToggle("Match End of Words", "matchEnd");
+            affixToggle("Match Middle of Words", "matchMiddle");
+        } else {
+            getStemmers().forEach(stemmer => {
+                new Setting(containerEl).setName(`Word Forms: ${stemmer.name}`).addToggle(t => t.setValue(this.plugin.settings.morphologyLanguages.includes(stemmer.id)).onChange(async v => {
+                    const langs = this.plugin.settings.morphologyLanguages.filter(l => l !== stemmer.id);
+                    this.plugin.settings.morphologyLanguages = v ? [...langs, stemmer.id] : langs;
+                    await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+                }));
+            });
+        }
+
+        new Setting(containerEl).setName("Minimum Partial Match Length").addSlider(sl => sl.setLimits(1, 10, 1).setValue(this.plugin.settings.minMatchLength).setDynamicTooltip()
+            .onChange(async v => { this.plugin.settings.minMatchLength = v; await this.plugin.saveSettings(); this.plugin.rebuildIndex(); }));
+
+        new Setting(containerEl).setName("Character-level Matching")
+            .setDesc("Finds note names inside text written without spaces. Auto applies it to Chinese, Japanese and Thai; Always applies it to every word, where names inside other words still follow the partial match settings.")
+            .addDropdown(d => d.addOption("auto", "Auto").addOption("always", "Always").addOption("off", "Off")
+                .setValue(this.plugin.settings.characterMatching)
+                .onChange(async v => { this.plugin.settings.characterMatching = v as "auto" | "always" | "off"; await this.plugin.saveSettings(); this.plugin.rebuildIndex(); }));
+
+        containerEl.createEl("h3", { text: "Where To Highlight" });
+        containerEl.createEl("p", { text: "Code, math, comments, HTML, URLs, tags, existing links and callout titles are never highlighted.", cls: "setting-item-description" });
+        const zoneToggle = (name: string, key: "highlightInHeadings" | "highlightInTables" | "highlightInCallouts") =>
+            new Setting(containerEl).setName(name).addToggle(t => t.setValue(this.plugin.settings[key]).onChange(async v => {
+                this.plugin.settings[key] = v; await this.plugin.saveSettings(); this.plugin.refreshEditors();
+            }));
+        zoneToggle("Highlight inside headings", "highlightInHeadings");
+        zoneToggle("Highlight inside tables", "highlightInTables");
+        zoneToggle("Highlight inside callouts", "highlightInCallouts");
+
+        containerEl.createEl("h3", { text: "Term Sources" });
+        const keySetting = (name: string, desc: string, key: "termsKey" | "excludeTermsKey" | "patternsKey") =>
+            new Setting(containerEl).setName(name).setDesc(desc).addText(t => t.setValue(this.plugin.settings[key]).onChange(async v => {
+                this.plugin.settings[key] = v.trim(); await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+            }));
+        keySetting("Extra Terms Key", "Frontmatter list of extra names a note is matched by, without adding aliases.", "termsKey");
+        keySetting("Excluded Terms Key", "Frontmatter list of names (e.g. an alias) that should not be matched.", "excludeTermsKey");
+        keySetting("Patterns Key", "Frontmatter list of regular expressions that link to the note, e.g. PROJ-\\d+. Case-sensitive; invalid patterns are skipped.", "patternsKey");
+
+        containerEl.createEl("h3", { text: "Scope" });
+        containerEl.createEl("p", { text: "One pattern per line: a tag (#daily) or a folder/path glob (Templates/, Journal/**/*.md).", cls: "setting-item-description" });
+        const patternList = (name: string, desc: string, key: "targetExclude" | "targetInclude" | "sourceExclude") =>
+            new Setting(containerEl).setName(name).setDesc(desc).addTextArea(t => t.setValue(this.plugin.settings[key].join("\n")).onChange(async v => {
+                this.plugin.settings[key] = v.split("\n").map(s => s.trim()).filter(s => s);
+                await this.plugin.saveSettings(); this.plugin.rebuildIndex();
+            }));
+        patternList("Never Link To", "Notes matching these are never targets.", "targetExclude");
+        patternList("Only Link To", "If set, only notes matching these are targets.", "targetInclude");
+        patternList("No Highlighting In", "Notes matching these are never scanned.", "sourceExclude");
+
+        new Setting(containerEl).setName("Per-note Switch").setDesc("Frontmatter key that turns Lazy Links off for a note when set to off or false.")
+            .addText(t => t.setValue(this.plugin.settings.sourceSwitchKey).onChange(async v => {
+                this.plugin.settings.sourceSwitchKey = v.trim(); await this.plugin.saveSettings(); this.plugin.refreshEditors();
+            }));
+
+        new Setting(containerEl).setName("Restrict Targets By Source").setDesc("Notes matching the source pattern only link to targets matching one of the target patterns (comma separated).")
+            .addButton(b => b.setButtonText("Add rule").onClick(async () => {
+                this.plugin.settings.sourceTargetRules = [...this.plugin.settings.sourceTargetRules, { source: "", targets: [] }];
+                await this.plugin.saveSettings(); this.display();
+            }));
+        this.plugin.settings.sourceTargetRules.forEach((rule, idx) => {
+            new Setting(containerEl).setClass("lazy-scope-rule")
+                .addText(t => t.setPlaceholder("Source, e.g. Work/").setValue(rule.source).onChange(async v => {
+                    rule.source = v; await this.plugin.saveSettings(); this.plugin.refreshEditors();
+                }))
+                .addText(t => t.setPlaceholder("Targets, e.g. Work/, #project").setValue(rule.targets.join(", ")).onChange(async v => {
+                    rule.targets = v.split(",").map(s => s.trim()).filter(s => s);
+                    await this.plugin.saveSettings(); this.plugin.refreshEditors();
+                }))
+                .addExtraButton(b => b.setIcon("trash").setTooltip("Remove rule").onClick(async () => {
+                    this.plugin.settings.sourceTargetRules = this.plugin.settings.sourceTargetRules.filter((_, i) => i !== idx);
+                    await this.plugin.saveSettings(); this.plugin.refreshEditors(); this.display();
+                }));
+        });
+
+        containerEl.createEl("h3", { text: "Ambiguous Terms" });
+        containerEl.createEl("p", { text: "When several notes share a name or alias, these rules pick the default target, top to bottom. Every candidate stays available under \"Link to…\".", cls: "setting-item-description" });
+        this.displayTieBreakRules(containerEl.createDiv());
+
+        containerEl.createEl("h3", { text: "Linking Report" });
+        new Setting(containerEl).setName("Report Export").setDesc(`"Create Vault Linking Report" writes ${REPORT_BASENAME}.md; optionally also a CSV or JSON file next to it.`)
+            .addDropdown(d => d.addOption("none", "Markdown only").addOption("csv", "Also CSV").addOption("json", "Also JSON")
+                .setValue(this.plugin.settings.reportExport).onChange(async v => {
+                    this.plugin.settings.reportExport = v as "none" | "csv" | "json"; await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl("h3", { text: "Noise Suppression" });
+        containerEl.createEl("p", { text: "Terms that would highlight almost everywhere. Case-sensitive names (like IT) are never suppressed.", cls: "setting-item-description" });
+        Object.entries(STOPWORD_LISTS).forEach(([lang, list]) => {
+            new Setting(containerEl).setName(`${list.name} Stopwords`).addToggle(t => t.setValue(this.plugin.settings.stopwordLanguages.includes(lang)).onChange(async v => {
+                const langs = this.plugin.settings.stopwordLanguages.filter(l => l !== lang);
+                this.plugin.settings.stopwordLanguages = v ? [...langs, lang] : langs;
+                await this.plugin.saveSettings(); this.plugin.noiseChanged(); this.displaySuppressedTerms(suppressedList);
+            }));
+        });
+        new Setting(containerEl).setName("Your Stopwords").setDesc("One per line. Never highlighted, but still linkable by hand.")
+            .addTextArea(t => t.setValue(this.plugin.settings.customStopwords.join("\n")).onChange(async v => {
+                this.plugin.settings.customStopwords = v.split("\n").map(w => w.trim().toLowerCase()).filter(w => w);
+                await this.plugin.saveSettings(); this.plugin.noiseChanged(); this.displaySuppressedTerms(suppressedList);
+            }));
+
+        const frequency = this.plugin.termFrequency;
+        new Setting(containerEl).setName("Suppress Common Terms")
+            .setDesc(`Counts in how many notes each term appears and hides terms above the threshold. Needs at least ${MIN_NOTES_FOR_FREQUENCY} notes.`
+                + (frequency ? ` Last count: ${frequency.notes} notes.` : ""))
+            .addToggle(t => t.setValue(this.plugin.settings.suppressCommonTerms).onChange(async v => {
+                this.plugin.settings.suppressCommonTerms = v; await this.plugin.saveSettings();
+                if (v && !this.plugin.termFrequency) await this.plugin.countTermFrequency(); else this.plugin.noiseChanged();
+                this.display();
+            }))
+            .addButton(b => b.setButtonText("Recount").onClick(async () => {
+                b.setDisabled(true).setButtonText("Counting...");
+                await this.plugin.countTermFrequency();
+                this.display();
+            }));
+        if (this.plugin.settings.suppressCommonTerms) {
+            new Setting(containerEl).setName("Threshold").setDesc("Percent of notes a term may appear in before it is suppressed.")
+                .addSlider(sl => sl.setLimits(5, 100, 5).setValue(this.plugin.settings.commonTermThreshold).setDynamicTooltip()
+                    .onChange(async v => { this.plugin.settings.commonTermThreshold = v; await this.plugin.saveSettings(); this.plugin.noiseChanged(); this.displaySuppressedTerms(suppressedList); }));
+        }
+        const suppressedList = containerEl.createDiv("lazy-ignore-list");
+        this.displaySuppressedTerms(suppressedList);
+
+        containerEl.createEl("h3", { text: "Relevance" });
+        containerEl.createEl("p", { text: "Each mention is scored by how much its target has in common with the note: an exact (not partial) match, shared tags, a nearby folder, and links from notes that also link to this one. The sidebar can sort by this score.", cls: "setting-item-description" });
+        new Setting(containerEl).setName("Relevance Threshold").setDesc("Mentions scoring below this percentage are hidden or shown faintly. 0 shows every mention as usual.")
+            .addSlider(sl => sl.setLimits(0, 100, 5).setValue(this.plugin.settings.relevanceThreshold).setDynamicTooltip()
+                .onChange(async v => { this.plugin.settings.relevanceThreshold = v; await this.plugin.saveSettings(); this.plugin.refreshEditors(); }));
+        new Setting(containerEl).setName("Below The Threshold").setDesc("Hidden mentions are also left out of the sidebar, scans and auto-linking.")
+            .addDropdown(d => d.addOption("faint", "Show faintly").addOption("hide", "Hide")
+                .setValue(this.plugin.settings.lowRelevance).onChange(async v => {
+                    this.plugin.settings.lowRelevance = v as "hide" | "faint"; await this.plugin.saveSettings(); this.plugin.refreshEditors();
+                }));
+
+        containerEl.createEl("h3", { text: "Ignored Mentions" });
+        let query = "";
+        new Setting(containerEl).setName("Search").addSearch(s => s.setPlaceholder("Term, note or folder").onChange(v => {
+            query = v.toLowerCase(); this.displayIgnoreRules(list, query);
+        }));
+        const list = containerEl.createDiv("lazy-ignore-list");
+        this.displayIgnoreRules(list, query);
+    }
+
+    // Every ignore with where it comes from; restoring drops the rule (or the ignored word)
+    displayIgnoreRules(el: HTMLElement, query: string) {
+        el.empty();
+        const entries = [
+            ...this.plugin.settings.ignoredWords.map(word => ({
+                term: word, source: "Everywhere (Ignored Words)",
+                restore: async () => {
+                    this.plugin.settings.ignoredWords = this.plugin.settings.ignoredWords.filter(w => w !== word);
+                    await this.plugin.saveSettings(); this.plugin.rebuildIndex(); this.display();
+                }
+            })),
+            ...this.plugin.settings.ignoreRules.map(rule => ({
+                term: rule.term, source: describeIgnore(rule),
+                restore: async () => { await this.plugin.removeIgnoreRule(rule); this.displayIgnoreRules(el, query); }
+            }))
+        ].filter(e => !query || e.term.includes(query) || e.source.toLowerCase().includes(query));
+
+        if (entries.length === 0) {
+            el.createDiv({ text: query ? "No ignores match the search." : "Nothing is ignored.", cls: "lazy-empty-state" });
+            return;
+        }
+        for (const entry of entries) {
+            new Setting(el).setName(entry.term).setDesc(entry.source)
+                .addExtraButton(b => b.setIcon("rotate-ccw").setTooltip("Restore").onClick(entry.restore));
+        }
+    }
+
+    // Suppressed indexed terms with the reason, and pinned terms; pinning keeps a term highlighted whatever the lists or counts say
+    displaySuppressedTerms(el: HTMLElement) {
+        el.empty();
+        const suppressed = this.plugin.getSuppressedTerms();
+        const pinned = this.plugin.settings.pinnedTerms;
+        if (suppressed.length === 0 && pinned.length === 0) {
+            el.createDiv({ text: "No indexed terms are suppressed.", cls: "lazy-empty-state" });
+            return;
+        }
+        for (const { term, suppression } of suppressed) {
+            new Setting(el).setName(term).setDesc(`Suppressed: ${describeSuppression(suppression)}`)
+                .addExtraButton(b => b.setIcon("pin").setTooltip("Pin (always highlight)").onClick(async () => {
+                    await this.plugin.pinTerm(term, true); this.displaySuppressedTerms(el);
+                }));
+        }
+        for (const term of pinned) {
+            new Setting(el).setName(term).setDesc("Pinned: always highlighted")
+                .addExtraButton(b => b.setIcon("pin-off").setTooltip("Unpin").onClick(async () => {
+                    await this.plugin.pinTerm(term, false); this.displaySuppressedTerms(el);
+                }));
+        }
+    }
+
+    displayTieBreakRules(el: HTMLElement) {
+        el.empty();
+        const rules = this.plugin.settings.tieBreakRules;
+        const all = Object.keys(TIE_BREAK_RULES) as TieBreakRule[];
+        const ordered = [...rules, ...all.filter(r => !rules.includes(r))];
+        // Edits a copy: the loaded array may still be the one in DEFAULT_SETTINGS
+        const save = async (next: TieBreakRule[]) => {
+            this.plugin.settings.tieBreakRules = next;
+            await this.plugin.saveSettings(); this.plugin.refreshEditors(); this.displayTieBreakRules(el);
+        };
+
+        ordered.forEach(rule => {
+            const enabled = rules.includes(rule);
+            const idx = rules.indexOf(rule);
+            const setting = new Setting(el).setName(TIE_BREAK_RULES[rule]);
+            if (enabled) {
+                setting.addExtraButton(b => b.setIcon("arrow-up").setTooltip("Move up").setDisabled(idx === 0).onClick(async () => {
+                    const next = [...rules]; next.splice(idx - 1, 0, next.splice(idx, 1)[0]); await save(next);
+                }));
+                setting.addExtraButton(b => b.setIcon("arrow-down").setTooltip("Move down").setDisabled(idx === rules.length - 1).onClick(async () => {
+                    const next = [...rules]; next.splice(idx + 1, 0, next.splice(idx, 1)[0]); await save(next);
+                }));
+            }
+            setting.addToggle(t => t.setValue(enabled).onChange(async v => {
+                await save(v ? [...rules, rule] : rules.filter(r => r !== rule));
+            }));
+        });
     }
 }
\ No newline at end of file
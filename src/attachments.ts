@@ -0,0 +1,48 @@
+import type { TFile } from "obsidian";
+
+/* --- NON-MARKDOWN TARGETS --- */
+// Canvases, PDFs, images and other attachments are matched by file name once their extension is opted in
+
+export type AttachmentKind = "canvas" | "pdf" | "image" | "other";
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "avif"];
+
+const ICONS: Record<AttachmentKind, string> = {
+    canvas: "layout-dashboard",
+    pdf: "file-text",
+    image: "image",
+    other: "paperclip"
+};
+
+// "Canvas, .pdf png" → ["canvas", "pdf", "png"]; markdown is always indexed and never listed
+export function parseExtensions(text: string): string[] {
+    const list = text.split(/[\s,]+/).map(e => e.trim().replace(/^\./, "").toLowerCase()).filter(e => e && e !== "md");
+    return [...new Set(list)];
+}
+
+// null for markdown notes
+export function attachmentKind(file: TFile): AttachmentKind | null {
+    const ext = (file.extension ?? "md").toLowerCase();
+    if (ext === "md") return null;
+    if (ext === "canvas" || ext === "pdf") return ext;
+    return IMAGE_EXTENSIONS.includes(ext) ? "image" : "other";
+}
+
+export function attachmentIcon(kind: AttachmentKind): string {
+    return ICONS[kind];
+}
+
+// Text shown when hovering a canvas: text cards first, then the names of the notes and files placed on it
+export function canvasText(json: string, limit = 12): string[] {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        return [];
+    }
+    const nodes: any[] = Array.isArray(data?.nodes) ? data.nodes : [];
+    const texts = nodes.filter(n => n.type === "text" && typeof n.text === "string" && n.text.trim()).map(n => n.text.trim());
+    const files = nodes.filter(n => n.type === "file" && typeof n.file === "string").map(n => n.file.replace(/^.*\//, "").replace(/\.md$/, ""));
+    const groups = nodes.filter(n => n.type === "group" && typeof n.label === "string" && n.label.trim()).map(n => n.label.trim());
+    return [...texts, ...groups, ...files].slice(0, limit);
+}
@@ -0,0 +1,54 @@
+import { ensureSyntaxTree, syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+import { Zone, ZoneKind, findBlockZones, findInlineZones } from "./zones";
+
+/* --- EXCLUSION ZONES FROM THE LIVE PREVIEW SYNTAX TREE --- */
+// Obsidian names markdown nodes after HyperMD token classes joined by "_", e.g. "formatting_formatting-code_inline-code"
+const TOKEN_KINDS: [RegExp, ZoneKind][] = [
+    [/^(inline-code|hmd-codeblock|formatting-code-block)$/, "code"],
+    [/^hmd-frontmatter$/, "frontmatter"],
+    [/^math/, "math"],
+    [/^comment$/, "comment"],
+    [/^hashtag/, "tag"],
+    [/^(url|string-url)$/, "url"],
+    [/^(hmd-internal-link|link|hmd-barelink|hmd-footnote|footref)/, "link"],
+    [/^(tag|attribute|hmd-html-begin|hmd-html-end)$/, "html"],
+    [/^header/, "heading"]
+];
+
+function classify(name: string): ZoneKind | null {
+    for (const cls of name.split("_")) {
+        for (const [regex, kind] of TOKEN_KINDS) if (regex.test(cls)) return kind;
+    }
+    return null;
+}
+
+export function editorZones(state: EditorState, from: number, to: number, tree = syntaxTree(state)): Zone[] {
+    const zones: Zone[] = [];
+    tree.iterate({
+        from, to,
+        enter: node => {
+            const kind = classify(node.name);
+            if (kind) zones.push({ kind, from: node.from, to: node.to });
+        }
+    });
+
+    // Tables and callouts are line-level constructs the tree doesn't expose as nodes: scan them from the start of the enclosing block
+    const doc = state.doc;
+    let line = doc.lineAt(from);
+    while (line.number > 1) {
+        const prev = doc.line(line.number - 1);
+        if (prev.text.trim() === "") break;
+        line = prev;
+    }
+    const text = doc.sliceString(line.from, to);
+    zones.push(...findBlockZones(text, line.from).filter(z => z.kind === "table" || z.kind === "callout"));
+    zones.push(...findInlineZones(text, line.from).filter(z => z.kind === "callout-meta"));
+    return zones;
+}
+
+// Zones for the start of the document up to "to", which may lie beyond what the editor has parsed; null when parsing doesn't finish in time
+export function documentZones(state: EditorState, to = state.doc.length, timeout = 200): Zone[] | null {
+    const tree = ensureSyntaxTree(state, to, timeout);
+    return tree ? editorZones(state, 0, to, tree) : null;
+}
@@ -0,0 +1,165 @@
+import { Component, setIcon } from "obsidian";
+
+/* --- HOVER PREVIEW POPUP --- */
+// One popup follows the hovered mention and stays open while either is hovered. Pinning detaches it: it stays until closed, and the next hover gets a new one.
+
+export interface PreviewActions {
+    link?: () => void;
+    ignore?: () => void;
+    openInNewTab: () => void;
+}
+
+// Renders into the popup body and returns what the toolbar can do, or null when there is nothing to preview
+export type PreviewFiller = (content: HTMLElement, anchor: HTMLElement, component: Component) => Promise<PreviewActions | null>;
+
+const SHOW_DELAY = 300;
+const HIDE_DELAY = 300;
+
+interface OpenPopup {
+    el: HTMLElement;
+    component: Component; // Owns whatever the markdown renderer attached, unloaded with the popup
+}
+
+export class HoverPreview {
+    current: OpenPopup | null = null;
+    anchor: HTMLElement | null = null;
+    pinned = new Set<OpenPopup>();
+    private pointerOver = false; // Over the hovered mention or its popup
+    private showTimer: number | null = null;
+    private hideTimer: number | null = null;
+
+    constructor(private fill: PreviewFiller) {}
+
+    // Opens after a short delay, or at once and pinned when the modifier key is held
+    hover(anchor: HTMLElement, evt: MouseEvent) {
+        this.pointerOver = true;
+        this.cancelHide();
+        if (this.current && this.anchor === anchor) return;
+        this.cancelShow();
+        if (evt.ctrlKey || evt.metaKey) this.show(anchor, true);
+        else this.showTimer = window.setTimeout(() => this.show(anchor, false), SHOW_DELAY);
+    }
+
+    leave() {
+        this.pointerOver = false;
+        this.cancelShow();
+        this.scheduleHide();
+    }
+
+    // Whether the pointer is on the open popup or the mention it belongs to
+    get hovered(): boolean {
+        return this.pointerOver && this.current !== null;
+    }
+
+    // Pins the open popup, e.g. when the modifier key is pressed while it shows
+    pin() {
+        const popup = this.current;
+        if (!popup) return;
+        popup.el.addClass("is-pinned");
+        this.pinned.add(popup);
+        this.current = null;
+        this.anchor = null;
+    }
+
+    // The transient popup; pinned ones stay
+    close() {
+        this.cancelShow();
+        this.cancelHide();
+        if (this.current) this.remove(this.current);
+        this.current = null;
+        this.anchor = null;
+    }
+
+    closeAll() {
+        this.close();
+        this.pinned.forEach(p => this.remove(p));
+    }
+
+    private async show(anchor: HTMLElement, pin: boolean) {
+        this.close();
+        const component = new Component();
+        component.load();
+        const el = document.body.createDiv("lazy-links-preview-popup popover");
+        const popup: OpenPopup = { el, component };
+        this.current = popup;
+        this.anchor = anchor;
+        if (pin) this.pin();
+
+        el.addEventListener("mouseenter", () => {
+            if (this.current !== popup) return;
+            this.pointerOver = true;
+            this.cancelHide();
+        });
+        el.addEventListener("mouseleave", () => {
+            if (this.current !== popup) return;
+            this.pointerOver = false;
+            this.scheduleHide();
+        });
+        const toolbar = el.createDiv("lazy-preview-toolbar");
+        const content = el.createDiv("lazy-preview-content markdown-rendered");
+        this.position(el, anchor);
+        requestAnimationFrame(() => el.addClass("lazy-preview-visible"));
+
+        let actions: PreviewActions | null = null;
+        try {
+            actions = await this.fill(content, anchor, component);
+        } catch (e) {
+            content.createDiv({ text: "No preview available.", cls: "lazy-empty-state" });
+        }
+        if (!el.isConnected) return; // Closed while loading
+        this.renderToolbar(toolbar, popup, actions);
+        this.position(el, anchor);
+    }
+
+    private renderToolbar(toolbar: HTMLElement, popup: OpenPopup, actions: PreviewActions | null) {
+        const button = (icon: string, label: string, cls: string, onClick: () => void) => {
+            const btn = toolbar.createEl("button", { cls: `clickable-icon ${cls}`, attr: { "aria-label": label } });
+            setIcon(btn, icon);
+            btn.onclick = (e) => { e.stopPropagation(); onClick(); };
+        };
+        // Linking or ignoring removes the highlight, so the popup goes with it
+        if (actions?.link) button("link", "Link this mention", "lazy-preview-link", () => { actions.link!(); this.remove(popup); });
+        if (actions?.ignore) button("eye-off", "Ignore", "lazy-preview-ignore", () => { actions.ignore!(); this.remove(popup); });
+        if (actions) button("external-link", "Open in new tab", "lazy-preview-open", () => { actions.openInNewTab(); this.remove(popup); });
+        toolbar.createDiv("lazy-preview-spacer");
+        button("pin", "Pin (or hold Ctrl/Cmd while hovering)", "lazy-preview-pin", () => { if (this.current === popup) this.pin(); });
+        button("x", "Close", "lazy-preview-close", () => this.remove(popup));
+    }
+
+    // Below the mention, or above it when there is no room; always inside the window
+    private position(el: HTMLElement, anchor: HTMLElement) {
+        const rect = anchor.getBoundingClientRect();
+        const width = el.offsetWidth || 350, height = el.offsetHeight || 0;
+        const left = Math.max(10, Math.min(rect.left, window.innerWidth - width - 20));
+        const below = rect.bottom + 10;
+        const top = below + height > window.innerHeight && rect.top - height - 10 > 0 ? rect.top - height - 10 : below;
+        el.style.left = `${left}px`;
+        el.style.top = `${top}px`;
+    }
+
+    private remove(popup: OpenPopup) {
+        if (this.current === popup) {
+            this.current = null;
+            this.anchor = null;
+        }
+        this.pinned.delete(popup);
+        popup.component.unload();
+        popup.el.addClass("lazy-preview-hiding");
+        window.setTimeout(() => popup.el.remove(), 200);
+    }
+
+    private scheduleHide() {
+        this.cancelHide();
+        this.hideTimer = window.setTimeout(() => this.close(), HIDE_DELAY);
+    }
+
+    private cancelShow() {
+        if (this.showTimer !== null) window.clearTimeout(this.showTimer);
+        this.showTimer = null;
+    }
+
+    private cancelHide() {
+        if (this.hideTimer !== null) window.clearTimeout(this.hideTimer);
+        this.hideTimer = null;
+    }
+}
@@ -0,0 +1,75 @@
+import type { LinkMatch, MatchTarget } from "./matcher";
+
+/* --- IGNORE RULES --- */
+// Finer than the global ignoredWords list: one mention, one term in one note, or one target from one folder
+
+export interface IgnoreRule {
+    scope: "occurrence" | "note" | "folder";
+    term: string; // Match key (lowercased term); for "folder" rules just the name shown in the manager
+    sourcePath: string; // Note path, or the folder path for "folder" rules ("" is the whole vault)
+    targetPath?: string; // "folder" rules: the note that is never linked to
+    before?: string; // "occurrence" rules: text right around the mention on its line, so it can be found again after edits
+    after?: string;
+    created: number;
+}
+
+const CONTEXT_LENGTH = 24;
+
+// Up to CONTEXT_LENGTH characters on either side, without crossing the line
+export function occurrenceContext(text: string, start: number, end: number): { before: string, after: string } {
+    const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+    const lineEnd = text.indexOf("\n", end);
+    return {
+        before: text.substring(Math.max(lineStart, start - CONTEXT_LENGTH), start),
+        after: text.substring(end, Math.min(lineEnd === -1 ? text.length : lineEnd, end + CONTEXT_LENGTH))
+    };
+}
+
+export function inFolder(path: string, folder: string): boolean {
+    return folder === "" || path.startsWith(folder + "/");
+}
+
+// Targets the source note may not link to because of a "folder" rule
+export function isTargetIgnored(rules: IgnoreRule[], sourcePath: string, target: MatchTarget): boolean {
+    return rules.some(r => r.scope === "folder" && r.targetPath === target.file.path && inFolder(sourcePath, r.sourcePath));
+}
+
+// Drops matches ignored for this note or at this spot. Text may be a slice of the note starting at offset; context cut off by the slice is not held against a match.
+export function dropIgnored(matches: LinkMatch[], rules: IgnoreRule[], sourcePath: string, text: string, offset = 0): LinkMatch[] {
+    const local = rules.filter(r => (r.scope === "note" || r.scope === "occurrence") && r.sourcePath === sourcePath);
+    if (local.length === 0) return matches;
+    return matches.filter(m => !local.some(r => {
+        if (r.term !== m.key) return false;
+        if (r.scope === "note") return true;
+        const start = m.start - offset, end = m.end - offset;
+        const ctx = occurrenceContext(text, start, end);
+        // Shorter context only counts where it runs into the edge of the text, not into a line break
+        const cutBefore = ctx.before.length < CONTEXT_LENGTH && start - ctx.before.length === 0;
+        const cutAfter = ctx.after.length < CONTEXT_LENGTH && end + ctx.after.length === text.length;
+        return (r.before === ctx.before || (cutBefore && r.before!.endsWith(ctx.before)))
+            && (r.after === ctx.after || (cutAfter && r.after!.startsWith(ctx.after)));
+    }));
+}
+
+// Keeps rules pointing at the right notes when a note or folder is renamed
+export function renameIgnorePaths(rules: IgnoreRule[], oldPath: string, newPath: string): boolean {
+    let changed = false;
+    const move = (path: string) => path === oldPath ? newPath : path.startsWith(oldPath + "/") ? newPath + path.substring(oldPath.length) : path;
+    for (const r of rules) {
+        const source = move(r.sourcePath), target = r.targetPath && move(r.targetPath);
+        if (source !== r.sourcePath || target !== r.targetPath) {
+            r.sourcePath = source;
+            r.targetPath = target;
+            changed = true;
+        }
+    }
+    return changed;
+}
+
+export function describeIgnore(rule: IgnoreRule): string {
+    switch (rule.scope) {
+        case "occurrence": return `One mention in ${rule.sourcePath}: …${rule.before}[${rule.term}]${rule.after}…`;
+        case "note": return `Everywhere in ${rule.sourcePath}`;
+        case "folder": return `Never to ${rule.targetPath} from ${rule.sourcePath || "the whole vault"}`;
+    }
+}
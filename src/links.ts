@@ -0,0 +1,61 @@
+import type { LinkMatch, MatchTarget } from "./matcher";
+import { attachmentKind } from "./attachments";
+
+/* --- LINK TEXT --- */
+export type LinkFormatter = (word: string, target: MatchTarget) => string;
+
+// Display text, unless the link would already read as the word (an alias like "Py" still needs it; attachment links would show their extension)
+export function linkAlias(word: string, target: MatchTarget): string | undefined {
+    if (word.toLowerCase() === target.file.basename.toLowerCase() && !target.subpath && !attachmentKind(target.file)) return undefined;
+    return word;
+}
+
+// Plain wikilink by basename; the plugin formats through the vault's link settings instead
+export function formatLink(word: string, target: MatchTarget): string {
+    const filePart = target.file.basename;
+    const linkPath = target.subpath ? `${filePart}${target.subpath}` : filePart;
+    const alias = linkAlias(word, target);
+    return alias === undefined ? `[[${linkPath}]]` : `[[${linkPath}|${alias}]]`;
+}
+
+// Applies matches back to front so earlier offsets stay valid. Matches whose text no longer matches (file edited since the scan) or that overlap an applied one are skipped.
+export function applyLinks(text: string, matches: LinkMatch[], format: LinkFormatter = formatLink): { text: string, applied: number } {
+    const sorted = [...matches].sort((a, b) => b.start - a.start);
+    let result = text;
+    let applied = 0;
+    let lowestStart = Infinity;
+    for (const m of sorted) {
+        if (m.end > lowestStart) continue;
+        if (text.substring(m.start, m.end) !== m.word) continue;
+        result = result.substring(0, m.start) + format(m.word, m.target) + result.substring(m.end);
+        lowestStart = m.start;
+        applied++;
+    }
+    return { text: result, applied };
+}
+
+// Matches whose text still reads as when they were found; an edit since then shifts or rewrites the rest
+export function unchangedMatches(matches: LinkMatch[], read: (start: number, end: number) => string): LinkMatch[] {
+    return matches.filter(m => read(m.start, m.end) === m.word);
+}
+
+// What auto-linking converts: every mention, or the first one per target note that the text doesn't link to yet
+export function pickAutoLinks(matches: LinkMatch[], mentions: "first" | "all", linked: Set<string> = new Set()): LinkMatch[] {
+    if (mentions === "all") return matches;
+    const seen = new Set(linked);
+    return [...matches].sort((a, b) => a.start - b.start).filter(m => {
+        if (seen.has(m.target.file.path)) return false;
+        seen.add(m.target.file.path);
+        return true;
+    });
+}
+
+// The full line around a match, before and after linking, for review UIs
+export function previewLink(text: string, m: LinkMatch, format: LinkFormatter = formatLink): { before: string, after: string, link: string, column: number } {
+    const lineStart = text.lastIndexOf("\n", m.start - 1) + 1;
+    const lineEnd = text.indexOf("\n", m.end);
+    const line = text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd);
+    const column = m.start - lineStart;
+    const link = format(m.word, m.target);
+    return { before: line, after: line.substring(0, column) + link + line.substring(column + m.word.length), link, column };
+}
@@ -0,0 +1,96 @@
+import type { ChangeDesc, Text } from "@codemirror/state";
+import type { LinkMatch } from "./matcher";
+
+/* --- INCREMENTAL EDITOR MATCHES --- */
+// What one editor has found so far. Edits map positions through the change and only drop the changed lines, which are then scanned again.
+
+export interface Range {
+    from: number;
+    to: number;
+}
+
+// Sorted union of ranges, touching ones joined
+export function mergeRanges(ranges: Range[]): Range[] {
+    const sorted = ranges.filter(r => r.to >= r.from).sort((a, b) => a.from - b.from);
+    const merged: Range[] = [];
+    for (const r of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && r.from <= last.to + 1) last.to = Math.max(last.to, r.to);
+        else merged.push({ ...r });
+    }
+    return merged;
+}
+
+export function subtractRanges(ranges: Range[], minus: Range[]): Range[] {
+    let result = mergeRanges(ranges);
+    for (const m of minus) {
+        result = result.flatMap(r => {
+            if (m.to < r.from || m.from > r.to) return [r];
+            const parts: Range[] = [];
+            if (m.from > r.from) parts.push({ from: r.from, to: m.from - 1 });
+            if (m.to < r.to) parts.push({ from: m.to + 1, to: r.to });
+            return parts;
+        });
+    }
+    return result;
+}
+
+const wholeLines = (r: Range, doc: Text): Range => ({ from: doc.lineAt(r.from).from, to: doc.lineAt(r.to).to });
+
+// Edits to these can change how every following line is classified (fences, math and comment blocks, frontmatter, callouts, tables, html)
+const BLOCK_SYNTAX = /```|~~~|\$\$|%%|^---|^\s*>|^\s*<|\|/m;
+
+export function touchesBlockSyntax(changes: ChangeDesc, before: Text, after: Text): boolean {
+    let hit = false;
+    changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        if (hit) return;
+        hit = BLOCK_SYNTAX.test(before.sliceString(before.lineAt(fromA).from, before.lineAt(toA).to))
+            || BLOCK_SYNTAX.test(after.sliceString(after.lineAt(fromB).from, after.lineAt(toB).to));
+    });
+    return hit;
+}
+
+export class EditorMatchCache {
+    matches: LinkMatch[] = []; // Sorted by start
+    scanned: Range[] = []; // Whole lines whose matches are known
+
+    reset() {
+        this.matches = [];
+        this.scanned = [];
+    }
+
+    applyChanges(changes: ChangeDesc, doc: Text) {
+        const dirty: Range[] = [];
+        changes.iterChangedRanges((fromA, toA, fromB, toB) => dirty.push(wholeLines({ from: fromB, to: toB }, doc)));
+        const mapped = this.scanned.map(r => ({ from: changes.mapPos(r.from, -1), to: changes.mapPos(r.to, 1) }));
+        this.scanned = subtractRanges(mapped, dirty);
+        this.matches = this.matches
+            .filter(m => !changes.touchesRange(m.start, m.end))
+            .map(m => ({ ...m, start: changes.mapPos(m.start, 1), end: changes.mapPos(m.end, -1) }))
+            .filter(m => !dirty.some(d => m.start <= d.to && m.end >= d.from));
+    }
+
+    // Line-aligned parts of the ranges that still need a scan
+    missing(ranges: readonly Range[], doc: Text): Range[] {
+        const pending = subtractRanges(ranges.map(r => wholeLines(r, doc)), this.scanned);
+        return mergeRanges(pending.map(r => wholeLines(r, doc)));
+    }
+
+    add(range: Range, found: LinkMatch[]) {
+        this.matches = [...this.matches.filter(m => m.end <= range.from || m.start >= range.to), ...found].sort((a, b) => a.start - b.start);
+        this.scanned = mergeRanges([...this.scanned, range]);
+    }
+
+    within(ranges: readonly Range[]): LinkMatch[] {
+        return this.matches.filter(m => ranges.some(r => m.start >= r.from && m.end <= r.to));
+    }
+}
+
+/* --- PER-NOTE RESULTS --- */
+// A Map used as a small LRU: re-inserting moves a key to the end, and the oldest key is dropped past the limit
+export function remember<K, V>(cache: Map<K, V>, key: K, value: V, limit: number): V {
+    cache.delete(key);
+    cache.set(key, value);
+    if (cache.size > limit) cache.delete(cache.keys().next().value!);
+    return value;
+}
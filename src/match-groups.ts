@@ -0,0 +1,43 @@
+import type { LinkMatch, MatchTarget } from "./matcher";
+import { describeSubpath } from "./targets";
+
+/* --- SIDEBAR GROUPING --- */
+export type GroupBy = "target" | "heading"; // One group per note, or per note heading the mention links to
+export type SortBy = "count" | "name" | "position" | "score";
+
+export interface MatchGroup {
+    key: string;
+    label: string;
+    target: MatchTarget;
+    matches: LinkMatch[]; // In document order
+    score: number; // Best relevance among the mentions, 0 when they aren't scored
+}
+
+const groupKey = (t: MatchTarget, groupBy: GroupBy) => groupBy === "heading" ? t.file.path + (t.subpath || "") : t.file.path;
+const groupLabel = (t: MatchTarget, groupBy: GroupBy) => groupBy === "heading" && t.subpath ? `${t.file.basename} > ${describeSubpath(t.subpath)}` : t.file.basename;
+
+// Case-insensitive search over the mention, the note name and path, and the heading
+export function matchesQuery(m: LinkMatch, query: string): boolean {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    return [m.word, m.target.file.path, m.target.actualName, m.target.subpath || ""].some(s => s.toLowerCase().includes(q));
+}
+
+export function groupMatches(matches: LinkMatch[], groupBy: GroupBy, sortBy: SortBy, query = ""): MatchGroup[] {
+    const groups = new Map<string, MatchGroup>();
+    for (const m of [...matches].sort((a, b) => a.start - b.start)) {
+        if (!matchesQuery(m, query)) continue;
+        const key = groupKey(m.target, groupBy);
+        if (!groups.has(key)) groups.set(key, { key, label: groupLabel(m.target, groupBy), target: m.target, matches: [], score: 0 });
+        const group = groups.get(key)!;
+        group.matches.push(m);
+        group.score = Math.max(group.score, m.relevance?.score ?? 0);
+    }
+    const byName = (a: MatchGroup, b: MatchGroup) => a.label.localeCompare(b.label) || a.key.localeCompare(b.key);
+    const sorted = [...groups.values()];
+    if (sortBy === "count") sorted.sort((a, b) => b.matches.length - a.matches.length || byName(a, b));
+    else if (sortBy === "name") sorted.sort(byName);
+    else if (sortBy === "score") sorted.sort((a, b) => b.score - a.score || b.matches.length - a.matches.length || byName(a, b));
+    else sorted.sort((a, b) => a.matches[0].start - b.matches[0].start);
+    return sorted;
+}
@@ -0,0 +1,585 @@
+import type { TFile } from "obsidian";
+import type { LazyLinksSettings } from "./settings";
+import type { Relevance } from "./relevance";
+import { getStemmer } from "./morphology";
+
+/* --- TYPES --- */
+export type TermSource = "name" | "alias" | "term" | "heading" | "block" | "pattern";
+
+export interface MatchTarget {
+    file: TFile;
+    actualName: string; // Original casing; the regex source for patterns
+    subpath?: string;
+    caseSensitive?: boolean; // Only matches whole words spelled exactly like actualName
+    source?: TermSource; // Where the term came from, shown next to matches
+}
+
+export interface Token {
+    text: string;
+    start: number;
+    end: number;
+    charRun?: boolean; // Script written without spaces: matched character by character
+}
+
+export interface LinkMatch {
+    start: number;
+    end: number;
+    word: string;
+    target: MatchTarget; // Best candidate after ranking
+    candidates: MatchTarget[]; // Every note the term maps to, ranked; more than one means the match is ambiguous
+    key: string; // Lowercased term, used to tell first and subsequent mentions apart
+    partial?: boolean; // Set when the mention is only part of a word, e.g. "cat" inside "category" with character matching
+    relevance?: Relevance; // Set when the mention is scored against a source note
+}
+
+export interface FindMatchesOptions {
+    offset?: number; // Added to every reported position (for text sliced out of a larger document)
+    allowSelf?: boolean;
+    rank?: (candidates: MatchTarget[]) => MatchTarget[]; // Orders ambiguous candidates, best first
+    exclude?: { from: number, to: number }[]; // Never match inside these (same coordinates as the reported positions)
+    filter?: (target: MatchTarget) => boolean; // Drops candidates this source may not link to
+}
+
+export type MatchSettings = Pick<LazyLinksSettings, "matchStart" | "matchEnd" | "matchMiddle" | "minMatchLength" | "ignoredWords" | "characterMatching" | "matchMode" | "morphologyLanguages">;
+
+// Which term produced a match, for the sidebar and menus: 'alias "Py"', 'pattern /PROJ-\d+/'
+export function describeTerm(target: MatchTarget): string {
+    switch (target.source) {
+        case "alias": return `alias "${target.actualName}"`;
+        case "term": return `term "${target.actualName}"`;
+        case "heading": return `heading "${target.actualName}"`;
+        case "block": return `block "${target.actualName}"`;
+        case "pattern": return `pattern /${target.actualName}/`;
+        default: return `name "${target.actualName}"`;
+    }
+}
+
+/* --- TOKENIZING --- */
+// Scripts without word spaces (Chinese, Japanese, Thai); "ー" and "々" are script-neutral but only occur inside them
+const CHAR_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}ー々]/u;
+const SCRIPT_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}ー々]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}ー々]+/gu;
+
+export function isCharScript(text: string): boolean {
+    return CHAR_SCRIPT.test(text);
+}
+
+// splitScripts cuts words at script boundaries, so "Pythonと機械学習" becomes "Python" + a character run "と機械学習"
+export function tokenize(text: string, offset = 0, splitScripts = false): Token[] {
+    const tokens: Token[] = [];
+    const wordRegex = /[\p{L}\d]+/gu;
+    let match;
+    while ((match = wordRegex.exec(text)) !== null) {
+        const start = offset + match.index;
+        if (!splitScripts || !CHAR_SCRIPT.test(match[0])) {
+            tokens.push({ text: match[0], start, end: start + match[0].length });
+            continue;
+        }
+        let run;
+        SCRIPT_RUN.lastIndex = 0;
+        while ((run = SCRIPT_RUN.exec(match[0])) !== null) {
+            tokens.push({ text: run[0], start: start + run.index, end: start + run.index + run[0].length, charRun: CHAR_SCRIPT.test(run[0]) });
+        }
+    }
+    return tokens;
+}
+
+// Splits text into the stretches between existing [[ ]] and [ ]( ) links and any extra excluded ranges, so a phrase can never span them
+export function unlinkedSegments(text: string, exclude: { from: number, to: number }[] = []): { start: number, end: number }[] {
+    const cuts = exclude.map(r => ({ from: Math.max(0, r.from), to: Math.min(text.length, r.to) })).filter(r => r.to > r.from);
+    const linkRegex = /\[\[.*?\]\]|\[.*?\]\(.*?\)/g;
+    let match;
+    while ((match = linkRegex.exec(text)) !== null) cuts.push({ from: match.index, to: match.index + match[0].length });
+    cuts.sort((a, b) => a.from - b.from);
+
+    const segments = [];
+    let last = 0;
+    for (const cut of cuts) {
+        if (cut.from > last) segments.push({ start: last, end: cut.from });
+        last = Math.max(last, cut.to);
+    }
+    if (last < text.length) segments.push({ start: last, end: text.length });
+    return segments;
+}
+
+// "IT", "NASA", "US": at least two letters and no lowercase ones
+export function isAllCaps(term: string): boolean {
+    const letters = term.match(/\p{L}/gu) || [];
+    return letters.length >= 2 && term === term.toUpperCase() && term !== term.toLowerCase();
+}
+
+// Compares the original words of the text with the target's name, token by token
+function matchesCasing(target: MatchTarget, words: string[]): boolean {
+    if (!target.caseSensitive) return true;
+    const expected = target.actualName.match(/[\p{L}\d]+/gu) || [];
+    return expected.length === words.length && expected.every((w, i) => w === words[i]);
+}
+
+// Same start/end/middle semantics as findBestMatchSingle: "middle" means neither touching the start nor the end
+export function isPartialMatch(word: string, key: string, settings: MatchSettings): boolean {
+    if (settings.matchStart && word.startsWith(key)) return true;
+    if (settings.matchEnd && word.endsWith(key)) return true;
+    if (settings.matchMiddle) {
+        for (let i = word.indexOf(key, 1); i !== -1; i = word.indexOf(key, i + 1)) {
+            if (i + key.length < word.length) return true;
+        }
+    }
+    return false;
+}
+
+// Distinct proper substrings of at least minLength characters, longest first
+function substrings(word: string, minLength: number): string[] {
+    const found = new Set<string>();
+    for (let len = word.length - 1; len >= minLength; len--) {
+        for (let i = 0; i + len <= word.length; i++) found.add(word.substring(i, i + len));
+    }
+    return [...found];
+}
+
+/* --- TRIE --- */
+const sameTarget = (a: MatchTarget, b: MatchTarget) => a.file.path === b.file.path && a.subpath === b.subpath;
+
+// Adds a candidate unless the same note/heading is already listed (e.g. an alias equal to the basename)
+function addCandidate(list: MatchTarget[], target: MatchTarget) {
+    if (!list.some(t => sameTarget(t, target))) list.push(target);
+}
+
+class TrieNode {
+    children = new Map<string, TrieNode>();
+    matches: MatchTarget[] = []; // Every target sharing this phrase
+}
+
+export class WordTrie {
+    root = new TrieNode();
+
+    // Terms are split into tokens the same way the text is, e.g. at script boundaries in "auto" character matching
+    constructor(private splitScripts: () => boolean = () => false) {}
+
+    insert(phrase: string, target: MatchTarget) {
+        this.insertTokens(this.tokenize(phrase), target);
+    }
+
+    insertTokens(tokens: string[], target: MatchTarget) {
+        if (tokens.length === 0) return;
+        let node = this.root;
+        for (const token of tokens) {
+            if (!node.children.has(token)) {
+                node.children.set(token, new TrieNode());
+            }
+            node = node.children.get(token)!;
+        }
+        addCandidate(node.matches, target);
+    }
+
+    // Drops one target from a phrase and prunes nodes left without matches or children
+    remove(phrase: string, target: MatchTarget) {
+        this.removeTokens(this.tokenize(phrase), target);
+    }
+
+    removeTokens(tokens: string[], target: MatchTarget) {
+        const path: TrieNode[] = [this.root];
+        for (const token of tokens) {
+            const next = path[path.length - 1].children.get(token);
+            if (!next) return;
+            path.push(next);
+        }
+        const leaf = path[path.length - 1];
+        leaf.matches = leaf.matches.filter(t => t !== target);
+        for (let i = tokens.length; i > 0; i--) {
+            const node = path[i];
+            if (node.matches.length > 0 || node.children.size > 0) break;
+            path[i - 1].children.delete(tokens[i - 1]);
+        }
+    }
+
+    tokenize(text: string): string[] {
+        return tokenize(text.toLowerCase(), 0, this.splitScripts()).map(t => t.text);
+    }
+
+    findLongestMatch(tokens: Token[], startIndex: number, selfNames: Set<string>, settings: MatchSettings, allowSelf = false) {
+        let node = this.root;
+        let lastMatch: MatchTarget[] = [];
+        let lastMatchLength = 0;
+        let currentLength = 0;
+
+        for (let i = startIndex; i < tokens.length; i++) {
+            const tokenText = tokens[i].text.toLowerCase();
+            let exactMatchFound = false;
+
+            if (node.children.has(tokenText)) {
+                node = node.children.get(tokenText)!;
+                currentLength++;
+                exactMatchFound = true;
+
+                if (node.matches.length > 0) {
+                    if (allowSelf || !selfNames.has(node.matches[0].actualName.toLowerCase())) {
+                        const words = tokens.slice(startIndex, i + 1).map(t => t.text);
+                        const usable = node.matches.filter(t => matchesCasing(t, words));
+                        if (usable.length > 0) {
+                            lastMatch = usable;
+                            lastMatchLength = currentLength;
+                        }
+                    }
+                }
+            }
+
+            if (!exactMatchFound) {
+                // Check for partial matches on children (if not exact), preferring the longest key
+                let bestKeyLength = 0;
+                // The root holds every term's first word: looking up the token's own substrings is far cheaper than walking all of them
+                const keys = node.children.size > tokenText.length * tokenText.length ? substrings(tokenText, settings.minMatchLength) : node.children.keys();
+                for (const key of keys) {
+                    const childNode = node.children.get(key);
+                    if (!childNode) continue;
+                    const partials = childNode.matches.filter(t => !t.caseSensitive);
+                    if (partials.length > 0 && key.length >= settings.minMatchLength && key.length > bestKeyLength) {
+                        if (isPartialMatch(tokenText, key, settings)) {
+                            if (allowSelf || !selfNames.has(childNode.matches[0].actualName.toLowerCase())) {
+                                lastMatch = partials;
+                                lastMatchLength = currentLength + 1;
+                                bestKeyLength = key.length;
+                            }
+                        }
+                    }
+                }
+                break;
+            }
+        }
+        return { length: lastMatchLength, targets: lastMatch };
+    }
+
+    // Exact-only variant for character-level scanning: the longest run of keys ending on a (non-self) match
+    findLongestExact(keys: string[], startIndex: number, selfNames: Set<string>, allowSelf = false) {
+        let node = this.root;
+        let best = { length: 0, targets: [] as MatchTarget[] };
+        for (let i = startIndex; i < keys.length; i++) {
+            const next = node.children.get(keys[i]);
+            if (!next) break;
+            node = next;
+            if (node.matches.length > 0 && (allowSelf || !selfNames.has(node.matches[0].actualName.toLowerCase()))) {
+                best = { length: i - startIndex + 1, targets: node.matches };
+            }
+        }
+        return best;
+    }
+}
+
+/* --- MATCHING ENGINE --- */
+export class LinkMatcher {
+    phraseTrie = new WordTrie(() => this.splitsScripts);
+    singleWordIndex = new Map<string, MatchTarget[]>();
+    singleWordLengths = new Map<number, number>(); // How many singleWordIndex keys have each length, so partial lookups skip lengths no term has
+    charTrie = new WordTrie(); // Keyed by single characters, for text without word spaces
+    stemTries = new Map<string, WordTrie>(); // Per language, keyed by stemmed tokens (morphology mode)
+    patterns: { regex: RegExp, target: MatchTarget }[] = []; // Regex terms, e.g. ticket ids pointing at a project note
+    fileTerms = new Map<string, { term: string, target: MatchTarget }[]>(); // What each file contributed, so it can be removed again
+
+    constructor(public settings: MatchSettings) {}
+
+    clear() {
+        this.phraseTrie = new WordTrie(() => this.splitsScripts);
+        this.singleWordIndex.clear();
+        this.singleWordLengths.clear();
+        this.charTrie = new WordTrie();
+        this.stemTries.clear();
+        this.patterns = [];
+        this.fileTerms.clear();
+    }
+
+    get splitsScripts(): boolean {
+        return this.settings.characterMatching === "auto";
+    }
+
+    // Morphology mode replaces start/end/middle matching with word forms
+    get affixSettings(): MatchSettings {
+        if (this.settings.matchMode !== "morphology") return this.settings;
+        return { ...this.settings, matchStart: false, matchEnd: false, matchMiddle: false };
+    }
+
+    stemKeys(term: string, lang: string): string[] {
+        const stemmer = getStemmer(lang);
+        return stemmer ? this.phraseTrie.tokenize(term).map(t => stemmer.stem(t)) : [];
+    }
+
+    // "auto": terms in spaceless scripts; "always": every single-word term, found inside words as far as the affix settings allow
+    usesCharTrie(term: string): boolean {
+        if (this.settings.characterMatching === "always") return !/\s/.test(term);
+        if (this.settings.characterMatching === "auto") return CHAR_SCRIPT.test(term);
+        return false;
+    }
+
+    addTerm(term: string, target: MatchTarget) {
+        const t = term.toLowerCase();
+        if (this.settings.ignoredWords.includes(t)) return;
+        this.phraseTrie.insert(t, target);
+        if (!t.includes(" ")) {
+            if (!this.singleWordIndex.has(t)) {
+                this.singleWordIndex.set(t, []);
+                this.countLength(t.length, 1);
+            }
+            addCandidate(this.singleWordIndex.get(t)!, target);
+        }
+        if (this.usesCharTrie(t)) this.charTrie.insertTokens(Array.from(t), target);
+        // Short names ("Go", "It") and case-sensitive ones only ever match exactly
+        if (this.settings.matchMode === "morphology" && t.length >= this.settings.minMatchLength && !target.caseSensitive) {
+            for (const lang of this.settings.morphologyLanguages) {
+                if (!getStemmer(lang)) continue;
+                if (!this.stemTries.has(lang)) this.stemTries.set(lang, new WordTrie());
+                this.stemTries.get(lang)!.insertTokens(this.stemKeys(t, lang), target);
+            }
+        }
+        const path = target.file.path;
+        if (!this.fileTerms.has(path)) this.fileTerms.set(path, []);
+        this.fileTerms.get(path)!.push({ term: t, target });
+    }
+
+    // Patterns match whole words only and are case-sensitive like any regex. Returns false for an invalid pattern.
+    addPattern(source: string, target: MatchTarget): boolean {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(`(?<![\\p{L}\\d])(?:${source})(?![\\p{L}\\d])`, "gu");
+        } catch (e) {
+            return false;
+        }
+        const patternTarget: MatchTarget = { ...target, actualName: source, source: "pattern" };
+        this.patterns.push({ regex, target: patternTarget });
+        const path = target.file.path;
+        if (!this.fileTerms.has(path)) this.fileTerms.set(path, []);
+        this.fileTerms.get(path)!.push({ term: source, target: patternTarget });
+        return true;
+    }
+
+    // Removes everything a file contributed. Targets are matched by identity, so this works after a rename has already changed file.path.
+    removeFile(path: string): { term: string, target: MatchTarget }[] {
+        const entries = this.fileTerms.get(path) || [];
+        this.patterns = this.patterns.filter(p => !entries.some(e => e.target === p.target));
+        for (const { term, target } of entries) {
+            if (target.source === "pattern") continue;
+            this.phraseTrie.remove(term, target);
+            this.charTrie.removeTokens(Array.from(term), target);
+            this.stemTries.forEach((trie, lang) => trie.removeTokens(this.stemKeys(term, lang), target));
+            const list = this.singleWordIndex.get(term);
+            if (list) {
+                const rest = list.filter(t => t !== target);
+                if (rest.length > 0) this.singleWordIndex.set(term, rest);
+                else {
+                    this.singleWordIndex.delete(term);
+                    this.countLength(term.length, -1);
+                }
+            }
+        }
+        this.fileTerms.delete(path);
+        return entries;
+    }
+
+    private countLength(length: number, delta: number) {
+        const count = (this.singleWordLengths.get(length) || 0) + delta;
+        if (count > 0) this.singleWordLengths.set(length, count); else this.singleWordLengths.delete(length);
+    }
+
+    // Whether a longer name starts with this phrase, e.g. "Machine" while "Machine Learning" may still be typed
+    hasLongerPhrase(phrase: string): boolean {
+        let node = this.phraseTrie.root;
+        for (const token of this.phraseTrie.tokenize(phrase)) {
+            const next = node.children.get(token);
+            if (!next) return false;
+            node = next;
+        }
+        return node !== this.phraseTrie.root && node.children.size > 0;
+    }
+
+    termsOf(path: string): { term: string, target: MatchTarget }[] {
+        return this.fileTerms.get(path) || [];
+    }
+
+    findBestMatchSingle(word: string, selfNames: Set<string>, allowSelf = false): { targets: MatchTarget[], matchedString?: string } {
+        const settings = this.affixSettings;
+        const lower = word.toLowerCase();
+        if (this.singleWordIndex.has(lower)) {
+            const targets = this.singleWordIndex.get(lower)!.filter(t => matchesCasing(t, [word]));
+            if (targets.length > 0 && (allowSelf || !selfNames.has(lower)))
+                return { targets, matchedString: lower };
+        }
+
+        if (!settings.matchStart && !settings.matchEnd && !settings.matchMiddle)
+            return { targets: [] };
+
+        if (word.length < settings.minMatchLength) return { targets: [] };
+
+        for (let len = lower.length - 1; len >= settings.minMatchLength; len--) {
+            // With middle matching on, a word has O(L^2) substrings; only lengths some term actually has are worth slicing
+            if (!this.singleWordLengths.has(len)) continue;
+            for (let i = 0; i <= lower.length - len; i++) {
+                const isStart = i === 0;
+                const isEnd = i + len === lower.length;
+                // Skip positions the enabled modes can't accept *before* allocating — avoids O(L^2) substring churn when matchMiddle is off (the default).
+                if (!((isStart && settings.matchStart) || (isEnd && settings.matchEnd) || (!isStart && !isEnd && settings.matchMiddle))) continue;
+                const sub = lower.substring(i, i + len);
+                if (!allowSelf && selfNames.has(sub)) continue;
+                const targets = this.singleWordIndex.get(sub)?.filter(t => !t.caseSensitive);
+                if (targets && targets.length > 0) {
+                    return { targets, matchedString: sub };
+                }
+            }
+        }
+        return { targets: [] };
+    }
+
+    // Non-overlapping pattern hits inside [start, end), leftmost and then longest first; equal hits become candidates of one match
+    findPatternHits(text: string, start: number, end: number, selfNames: Set<string>, allowSelf = false) {
+        const hits: { start: number, end: number, targets: MatchTarget[] }[] = [];
+        if (this.patterns.length === 0) return hits;
+        const slice = text.substring(start, end);
+        for (const { regex, target } of this.patterns) {
+            if (!allowSelf && selfNames.has(target.file.basename.toLowerCase())) continue;
+            regex.lastIndex = 0;
+            let match;
+            while ((match = regex.exec(slice)) !== null) {
+                if (match[0].length === 0) { regex.lastIndex++; continue; }
+                if (this.settings.ignoredWords.includes(match[0].toLowerCase())) continue;
+                const from = start + match.index, to = from + match[0].length;
+                const same = hits.find(h => h.start === from && h.end === to);
+                if (same) addCandidate(same.targets, target); else hits.push({ start: from, end: to, targets: [target] });
+            }
+        }
+        hits.sort((a, b) => a.start - b.start || b.end - a.end);
+        let last = -1;
+        return hits.filter(h => {
+            if (h.start < last) return false;
+            last = h.end;
+            return true;
+        });
+    }
+
+    // Tokenize -> skip existing links -> patterns -> longest phrase -> single word fallback. Every surface goes through here.
+    findMatches(text: string, selfNames: Set<string>, options: FindMatchesOptions = {}): LinkMatch[] {
+        const offset = options.offset ?? 0;
+        const allowSelf = options.allowSelf ?? false;
+        const rank = options.rank ?? ((candidates: MatchTarget[]) => candidates);
+        const matches: LinkMatch[] = [];
+        const addMatch = (start: number, end: number, targets: MatchTarget[], key: string, partial = false) => {
+            const allowed = options.filter ? targets.filter(options.filter) : targets;
+            if (allowed.length === 0) return;
+            const candidates = allowed.length > 1 ? rank(allowed) : allowed;
+            const match: LinkMatch = { start: offset + start, end: offset + end, word: text.substring(start, end), target: candidates[0], candidates, key };
+            if (partial) match.partial = true;
+            matches.push(match);
+        };
+
+        const exclude = (options.exclude || []).map(r => ({ from: r.from - offset, to: r.to - offset }));
+        const mode = this.settings.characterMatching;
+        const affixSettings = this.affixSettings;
+        const scanWords = (segmentStart: number, segmentEnd: number) => {
+            const tokens = tokenize(text.substring(segmentStart, segmentEnd), segmentStart, mode === "auto");
+            const stems = new Map<string, string[]>(); // Stemmed tokens per language, computed on first use
+            const stemsOf = (lang: string) => {
+                if (!stems.has(lang)) {
+                    const stemmer = getStemmer(lang)!;
+                    stems.set(lang, tokens.map(t => t.charRun ? t.text : stemmer.stem(t.text)));
+                }
+                return stems.get(lang)!;
+            };
+
+            // Character-level hits from the start of tokens[index] onwards. The rest of its word is included, which in "auto" mode continues across
+            // script boundaries ("Python入門" is the tokens "Python" and "入門"), but hits only start inside the token itself, or only at its start.
+            const scanChars = (index: number, fromStartOnly: boolean) => {
+                let last = index;
+                while (last + 1 < tokens.length && tokens[last + 1].start === tokens[last].end) last++;
+                const chars = Array.from(text.substring(tokens[index].start, tokens[last].end));
+                const keys = chars.map(c => c.toLowerCase());
+                const offsets = [tokens[index].start];
+                chars.forEach(c => offsets.push(offsets[offsets.length - 1] + c.length));
+                // Edges in a spaced script keep the word rules: the end of the word or a spaceless character next to them, or an affix the settings allow
+                const allowedTargets = (from: number, to: number, targets: MatchTarget[]) => {
+                    const word = chars.slice(from, to).join("");
+                    const cased = targets.filter(t => matchesCasing(t, [word]));
+                    const atStart = CHAR_SCRIPT.test(chars[from]) || from === 0 || CHAR_SCRIPT.test(chars[from - 1]);
+                    const atEnd = CHAR_SCRIPT.test(chars[to - 1]) || to === chars.length || CHAR_SCRIPT.test(chars[to]);
+                    if (atStart && atEnd) return { targets: cased, partial: false };
+                    const affix = atStart ? affixSettings.matchStart : atEnd ? affixSettings.matchEnd : affixSettings.matchMiddle;
+                    // Partial hits skip case-sensitive names, as partial word matches do
+                    return { targets: affix && to - from >= affixSettings.minMatchLength ? cased.filter(t => !t.caseSensitive) : [], partial: true };
+                };
+                const hits: { start: number, end: number, targets: MatchTarget[], key: string, partial: boolean }[] = [];
+                const starts = fromStartOnly ? 1 : Array.from(tokens[index].text).length;
+                let i = 0;
+                while (i < starts) {
+                    const hit = this.charTrie.findLongestExact(keys, i, selfNames, allowSelf);
+                    const allowed = hit.length > 0 ? allowedTargets(i, i + hit.length, hit.targets) : { targets: [], partial: false };
+                    if (allowed.targets.length > 0) {
+                        hits.push({ start: offsets[i], end: offsets[i + hit.length], targets: allowed.targets, key: keys.slice(i, i + hit.length).join(""), partial: allowed.partial });
+                        i += hit.length;
+                    } else {
+                        i++;
+                    }
+                }
+                // Scanning resumes at the first token the hits didn't reach into
+                let next = index + 1;
+                while (next < tokens.length && tokens[next].start < offsets[i]) next++;
+                return { hits, next };
+            };
+
+            let tIndex = 0;
+            while (tIndex < tokens.length) {
+                const token = tokens[tIndex];
+                const charRun = mode === "always" || (mode === "auto" && !!token.charRun);
+                const phraseMatch = this.phraseTrie.findLongestMatch(tokens, tIndex, selfNames, affixSettings, allowSelf);
+
+                // A mixed-script name like "Python入門" runs on into the next character run, past where its token-based phrase ends
+                const nextToken = tokens[tIndex + 1];
+                if (mode === "auto" && !token.charRun && nextToken?.charRun && nextToken.start === token.end) {
+                    const mixed = scanChars(tIndex, true);
+                    if (mixed.hits.length > 0 && mixed.hits[0].end > token.end && mixed.next - tIndex >= phraseMatch.length) {
+                        mixed.hits.forEach(h => addMatch(h.start, h.end, h.targets, h.key, h.partial));
+                        tIndex = mixed.next;
+                        continue;
+                    }
+                }
+
+                // Word forms: every token of a phrase is compared by its stem; exact phrases win ties
+                let stemMatch = { length: 0, targets: [] as MatchTarget[] };
+                if (!charRun) {
+                    this.stemTries.forEach((trie, lang) => {
+                        const hit = trie.findLongestExact(stemsOf(lang), tIndex, selfNames, allowSelf);
+                        if (hit.length > stemMatch.length) stemMatch = hit;
+                    });
+                }
+
+                if (stemMatch.length > phraseMatch.length) {
+                    const startToken = tokens[tIndex];
+                    const endToken = tokens[tIndex + stemMatch.length - 1];
+                    addMatch(startToken.start, endToken.end, stemMatch.targets, stemMatch.targets[0].actualName.toLowerCase());
+                    tIndex += stemMatch.length;
+                } else if (charRun && phraseMatch.length <= 1) {
+                    // A lone character run is searched for names as substrings instead (multi-word phrases still win)
+                    const scanned = scanChars(tIndex, false);
+                    scanned.hits.forEach(h => addMatch(h.start, h.end, h.targets, h.key, h.partial));
+                    tIndex = scanned.next;
+                } else if (phraseMatch.targets.length > 0 && phraseMatch.length > 0) {
+                    const startToken = tokens[tIndex];
+                    const endToken = tokens[tIndex + phraseMatch.length - 1];
+                    addMatch(startToken.start, endToken.end, phraseMatch.targets, phraseMatch.targets[0].actualName.toLowerCase());
+                    tIndex += phraseMatch.length;
+                } else {
+                    const token = tokens[tIndex];
+                    const single = this.findBestMatchSingle(token.text, selfNames, allowSelf);
+                    if (single.targets.length > 0) {
+                        addMatch(token.start, token.end, single.targets, single.matchedString!);
+                    }
+                    tIndex++;
+                }
+            }
+        };
+
+        for (const segment of unlinkedSegments(text, exclude)) {
+            // Pattern hits win; words are only looked up in the stretches between them
+            let from = segment.start;
+            for (const hit of this.findPatternHits(text, segment.start, segment.end, selfNames, allowSelf)) {
+                scanWords(from, hit.start);
+                addMatch(hit.start, hit.end, hit.targets, text.substring(hit.start, hit.end).toLowerCase());
+                from = hit.end;
+            }
+            scanWords(from, segment.end);
+        }
+        return matches;
+    }
+}
@@ -0,0 +1,86 @@
+/* --- MORPHOLOGY: PER-LANGUAGE STEMMERS --- */
+// Stemmers only need to be consistent: a note name and its inflected forms in the text must reduce to the same key.
+// They strip inflection (plurals, verb endings, diminutives), not derivation, so "Art" and "Artificial" stay apart.
+
+export interface Stemmer {
+    id: string;
+    name: string;
+    stem: (word: string) => string;
+}
+
+const STEMMERS = new Map<string, Stemmer>();
+
+export function registerStemmer(stemmer: Stemmer) {
+    STEMMERS.set(stemmer.id, stemmer);
+}
+
+export function getStemmer(id: string): Stemmer | undefined {
+    return STEMMERS.get(id);
+}
+
+export function getStemmers(): Stemmer[] {
+    return [...STEMMERS.values()];
+}
+
+/* --- ENGLISH --- */
+const EN_VOWEL = /[aeiouy]/;
+const isConsonant = (w: string, i: number) => !/[aeiou]/.test(w[i]) && !(w[i] === "y" && i > 0 && !isConsonant(w, i - 1));
+
+// Porter's step 1 (plurals, -ed, -ing, final -y), which covers English inflection
+function stemEnglish(word: string): string {
+    let w = word.toLowerCase();
+    if (w.length <= 3) return w;
+
+    if (w.endsWith("sses")) w = w.slice(0, -2);
+    else if (w.endsWith("ies")) w = w.slice(0, -2);
+    else if (w.endsWith("s") && !w.endsWith("ss") && !w.endsWith("us") && !w.endsWith("is")) w = w.slice(0, -1);
+
+    let stripped = false;
+    if (w.endsWith("eed")) {
+        if (w.length > 4) w = w.slice(0, -1);
+    } else {
+        for (const suffix of ["ing", "ed"]) {
+            const base = w.slice(0, -suffix.length);
+            if (w.endsWith(suffix) && base.length >= 2 && EN_VOWEL.test(base)) {
+                w = base;
+                stripped = true;
+                break;
+            }
+        }
+    }
+    if (stripped) {
+        if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) w += "e";
+        else if (w.length > 2 && w[w.length - 1] === w[w.length - 2] && !/[lsz]/.test(w[w.length - 1]) && isConsonant(w, w.length - 1)) w = w.slice(0, -1);
+        else if (w.length === 3 && isConsonant(w, 0) && !isConsonant(w, 1) && isConsonant(w, 2) && !/[wxy]/.test(w[2])) w += "e";
+    }
+
+    if (w.endsWith("y") && w.length > 2 && EN_VOWEL.test(w.slice(0, -1))) w = w.slice(0, -1) + "i";
+    return w;
+}
+
+/* --- DUTCH --- */
+// Undoes the spelling changes of an open syllable: "bomen" -> "bom" and "boom" -> "bom", "huizen" -> "huis", "brieven" -> "brief"
+function normalizeDutch(w: string): string {
+    w = w.replace(/([aeou])\1([^aeiou]+)$/, "$1$2");
+    if (w.endsWith("z")) w = w.slice(0, -1) + "s";
+    else if (w.endsWith("v")) w = w.slice(0, -1) + "f";
+    if (w.length > 2 && w[w.length - 1] === w[w.length - 2] && !/[aeiou]/.test(w[w.length - 1])) w = w.slice(0, -1);
+    return w;
+}
+
+function stemDutch(word: string): string {
+    let w = word.toLowerCase();
+    if (w.length <= 3) return w;
+
+    if (w.endsWith("heden")) return w.slice(0, -5) + "heid";
+    for (const suffix of ["etjes", "etje", "tjes", "tje", "pjes", "pje", "jes", "je"]) {
+        if (w.endsWith(suffix) && w.length - suffix.length >= 3) return normalizeDutch(w.slice(0, -suffix.length));
+    }
+    if (w.endsWith("en") && w.length > 4 && !/[aeiou]/.test(w[w.length - 3])) return normalizeDutch(w.slice(0, -2));
+    if (w.endsWith("s") && /(e|el|er|em|en)s$/.test(w)) return normalizeDutch(w.slice(0, -1));
+    if (w.endsWith("e") && w.length > 4 && !/[aeiou]/.test(w[w.length - 2])) return normalizeDutch(w.slice(0, -1));
+    return normalizeDutch(w);
+}
+
+registerStemmer({ id: "en", name: "English", stem: stemEnglish });
+registerStemmer({ id: "nl", name: "Dutch", stem: stemDutch });
@@ -0,0 +1,86 @@
+/* --- NOISE SUPPRESSION --- */
+// Terms that would highlight nearly everywhere: function words from a stopword list, and terms found in too many notes of the vault
+
+export const STOPWORD_LISTS: Record<string, { name: string, words: string[] }> = {
+    en: {
+        name: "English",
+        words: ("a about above after again against all am an and any are as at be because been before being below between both but by can could did do does " +
+            "doing down during each few for from further go had has have having he her here hers him his how i if in into is it its just me more most my no nor " +
+            "not now of off on once only or other our ours out over own same she should so some such than that the their theirs them then there these they this " +
+            "those through to too under until up very was we were what when where which while who whom why will with would you your yours").split(" ")
+    },
+    nl: {
+        name: "Dutch",
+        words: ("aan al alles als bij dan dat de der deze die dit doch doen door dus een en er ge geen had heb hebben heeft hem het hier hij hoe hun ik in is " +
+            "ja je kan kon maar me meer men met mij mijn na naar niet niets nog nu of om omdat ons ook op over reeds te tegen toch toen tot u uit uw van veel " +
+            "voor want waren was wat we wel werd wezen wie wij wil worden zal ze zei zelf zich zij zijn zo zonder zou").split(" ")
+    },
+    de: {
+        name: "German",
+        words: ("aber alle als also am an auch auf aus bei bin bis bist da damit dann das dass dem den der des die dies doch dort du durch ein eine einem " +
+            "einen einer eines er es für hat hatte ich ihr im in ist ja jetzt kann kein mit man mehr mein nach nicht noch nun nur ob oder ohne sehr sein sich " +
+            "sie sind so über um und uns unter vom von vor war was weil wenn wer wie wir wird wo zu zum zur").split(" ")
+    },
+    fr: {
+        name: "French",
+        words: ("à au aux avec ce ces dans de des du elle en et eux il je la le les leur lui ma mais me même mes moi mon ne nos notre nous on ou où par pas " +
+            "pour qu que qui sa se ses son sur ta te tes toi ton tu un une vos votre vous c d j l m n s t y été être avoir est sont était fait comme plus").split(" ")
+    },
+    es: {
+        name: "Spanish",
+        words: ("a al algo como con de del el ella ellos en entre era es esa ese eso esta este esto fue ha hay la las le les lo los más me mi muy no nos o " +
+            "para pero por que qué se sin sobre su sus también te tu un una uno y ya yo cuando donde").split(" ")
+    }
+};
+
+// Term counts from a vault scan: in how many notes each match key occurs
+export interface TermFrequency {
+    notes: number;
+    counts: Map<string, number>;
+}
+
+export interface NoiseSettings {
+    stopwordLanguages: string[];
+    customStopwords: string[];
+    suppressCommonTerms: boolean;
+    commonTermThreshold: number; // Percent of notes
+    pinnedTerms: string[]; // Never suppressed
+}
+
+export type Suppression =
+    | { reason: "stopword", list: string }
+    | { reason: "custom" }
+    | { reason: "common", notes: number, total: number };
+
+// Below this many notes, frequencies say little
+export const MIN_NOTES_FOR_FREQUENCY = 20;
+
+// Built once per settings change or recount; called for every match
+export function buildSuppressor(settings: NoiseSettings, frequency: TermFrequency | null): (key: string) => Suppression | null {
+    const pinned = new Set(settings.pinnedTerms.map(t => t.toLowerCase()));
+    const custom = new Set(settings.customStopwords.map(t => t.toLowerCase()));
+    const stopwords = new Map<string, string>();
+    for (const lang of settings.stopwordLanguages) {
+        STOPWORD_LISTS[lang]?.words.forEach(w => { if (!stopwords.has(w)) stopwords.set(w, STOPWORD_LISTS[lang].name); });
+    }
+    const limit = frequency && settings.suppressCommonTerms && frequency.notes >= MIN_NOTES_FOR_FREQUENCY
+        ? frequency.notes * settings.commonTermThreshold / 100 : Infinity;
+
+    return key => {
+        if (pinned.has(key)) return null;
+        if (custom.has(key)) return { reason: "custom" };
+        const list = stopwords.get(key);
+        if (list) return { reason: "stopword", list };
+        const notes = frequency?.counts.get(key) ?? 0;
+        if (notes > 0 && notes >= limit) return { reason: "common", notes, total: frequency!.notes };
+        return null;
+    };
+}
+
+export function describeSuppression(s: Suppression): string {
+    switch (s.reason) {
+        case "stopword": return `${s.list} stopword`;
+        case "custom": return "on your stopword list";
+        case "common": return `in ${Math.round(s.notes / s.total * 100)}% of notes (${s.notes} of ${s.total})`;
+    }
+}
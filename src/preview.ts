@@ -0,0 +1,25 @@
+/* --- HOVER PREVIEW TEXT --- */
+
+// Offset where the note body starts, after any frontmatter
+export function bodyStart(text: string): number {
+    const match = text.match(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/);
+    return match ? match[0].length : 0;
+}
+
+// Cuts long markdown at a line end outside code fences and math blocks, so the preview never renders half a block
+export function truncateMarkdown(markdown: string, limit = 800): { text: string, truncated: boolean } {
+    if (markdown.length <= limit) return { text: markdown, truncated: false };
+    const lines = markdown.split("\n");
+    let length = 0, safeLength = 0, open: string | null = null;
+    for (const line of lines) {
+        if (length + line.length > limit) break;
+        length += line.length + 1;
+        const trimmed = line.trim();
+        const fence = trimmed.match(/^(```|~~~|\$\$)/);
+        const oneLineMath = fence?.[1] === "$$" && trimmed.length > 2 && trimmed.endsWith("$$");
+        if (fence && !oneLineMath) open = open === null ? fence[1] : open === fence[1] ? null : open;
+        if (open === null) safeLength = length;
+    }
+    const text = safeLength > 0 ? markdown.substring(0, safeLength) : markdown.substring(0, limit);
+    return { text: text.trimEnd(), truncated: true };
+}
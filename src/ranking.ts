@@ -0,0 +1,45 @@
+import type { MatchTarget } from "./matcher";
+
+/* --- TIE-BREAK RULES FOR AMBIGUOUS TERMS --- */
+export type TieBreakRule = "same-folder" | "most-backlinks" | "recently-modified";
+
+export const TIE_BREAK_RULES: Record<TieBreakRule, string> = {
+    "same-folder": "Same or nearest folder first",
+    "most-backlinks": "Most backlinks first",
+    "recently-modified": "Most recently modified first"
+};
+
+export interface RankContext {
+    sourcePath: string;
+    backlinks: (path: string) => number;
+}
+
+// Number of folder segments two paths have in common ("a/b/x.md" and "a/c/y.md" share 1)
+function sharedFolderDepth(a: string, b: string): number {
+    const fa = a.split("/").slice(0, -1);
+    const fb = b.split("/").slice(0, -1);
+    let depth = 0;
+    while (depth < fa.length && depth < fb.length && fa[depth] === fb[depth]) depth++;
+    // Both in the vault root (or the very same folder) counts as one level deeper than any partial overlap
+    return depth === fa.length && depth === fb.length ? depth + 1 : depth;
+}
+
+// Higher is better
+function score(rule: TieBreakRule, target: MatchTarget, ctx: RankContext): number {
+    switch (rule) {
+        case "same-folder": return sharedFolderDepth(target.file.path, ctx.sourcePath);
+        case "most-backlinks": return ctx.backlinks(target.file.path);
+        case "recently-modified": return target.file.stat?.mtime ?? 0;
+    }
+}
+
+// Sorts candidates by the enabled rules in order; full path is the final, stable tie-break
+export function rankCandidates(candidates: MatchTarget[], rules: TieBreakRule[], ctx: RankContext): MatchTarget[] {
+    return [...candidates].sort((a, b) => {
+        for (const rule of rules) {
+            const diff = score(rule, b, ctx) - score(rule, a, ctx);
+            if (diff !== 0) return diff;
+        }
+        return a.file.path.localeCompare(b.file.path);
+    });
+}
@@ -0,0 +1,38 @@
+import type { LinkMatch } from "./matcher";
+
+/* --- READING MODE POSITIONS --- */
+// Rendered text is matched on its own. Pairing it with the note's matches gives each highlight its place in the source: first or later mention, and where to write a link.
+
+// Character range covered by lines lineStart..lineEnd (inclusive)
+export function lineRange(text: string, lineStart: number, lineEnd: number): { from: number, to: number } {
+    const lines = text.split("\n");
+    let from = 0;
+    for (let i = 0; i < Math.min(lineStart, lines.length); i++) from += lines[i].length + 1;
+    let to = from;
+    for (let i = lineStart; i <= Math.min(lineEnd, lines.length - 1); i++) to += lines[i].length + (i < lineEnd ? 1 : 0);
+    return { from: Math.min(from, text.length), to: Math.min(to, text.length) };
+}
+
+// Pairs rendered matches, in document order, with the section's source matches of the same term and spelling, each used once.
+// Rendered matches without one (link text, tags, anything the editor leaves out) get null.
+export function sourcePairer(source: LinkMatch[]): (rendered: LinkMatch) => LinkMatch | null {
+    let next = 0;
+    return rendered => {
+        for (let i = next; i < source.length; i++) {
+            if (source[i].key === rendered.key && source[i].word.toLowerCase() === rendered.word.toLowerCase()) {
+                next = i + 1;
+                return source[i];
+            }
+        }
+        return null;
+    };
+}
+
+// Where each term is mentioned first in the note
+export function firstMentionStarts(matches: LinkMatch[]): Set<number> {
+    const seen = new Map<string, number>();
+    for (const m of matches) {
+        if (!seen.has(m.key) || m.start < seen.get(m.key)!) seen.set(m.key, m.start);
+    }
+    return new Set(seen.values());
+}
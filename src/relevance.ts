@@ -0,0 +1,72 @@
+import type { LinkMatch } from "./matcher";
+
+/* --- RELEVANCE SCORING --- */
+// How likely a mention is meant as a link, from what the source note and the target have in common
+
+export interface RelevanceSignals {
+    exact: boolean; // The mention spells the term in full, rather than a partial or inflected hit
+    sharedTags: number;
+    folderDistance: number; // Folder steps from the source to the target: 0 for the same folder
+    coLinks: number; // Notes linking to the source that also link to the target
+}
+
+export interface Relevance {
+    score: number; // 0 to 1
+    signals: RelevanceSignals;
+}
+
+export interface RelevanceContext {
+    sourcePath: string;
+    sourceTags: string[];
+    tags: (path: string) => string[];
+    linkers: string[]; // Notes that link to the source
+    links: (from: string, to: string) => boolean;
+}
+
+const WEIGHTS = { exact: 0.3, tags: 0.25, folder: 0.25, coLinks: 0.2 };
+
+const folders = (path: string) => path.split("/").slice(0, -1);
+
+// Steps up from one note's folder to the common ancestor, plus steps down to the other's
+export function folderDistance(a: string, b: string): number {
+    const fa = folders(a), fb = folders(b);
+    let common = 0;
+    while (common < fa.length && common < fb.length && fa[common] === fb[common]) common++;
+    return fa.length - common + fb.length - common;
+}
+
+export function relevanceSignals(m: LinkMatch, ctx: RelevanceContext): RelevanceSignals {
+    const path = m.target.file.path;
+    const sourceTags = new Set(ctx.sourceTags.map(t => t.toLowerCase()));
+    const targetTags = new Set(ctx.tags(path).map(t => t.toLowerCase()));
+    return {
+        exact: !m.partial && m.word.toLowerCase().replace(/\s+/g, " ") === m.key.replace(/\s+/g, " "),
+        sharedTags: [...targetTags].filter(t => sourceTags.has(t)).length,
+        folderDistance: folderDistance(ctx.sourcePath, path),
+        coLinks: ctx.linkers.filter(l => l !== path && ctx.links(l, path)).length
+    };
+}
+
+// Each signal saturates: two shared tags or three co-linking notes count as much as any more
+export function relevanceScore(s: RelevanceSignals): number {
+    const score = (s.exact ? WEIGHTS.exact : 0)
+        + WEIGHTS.tags * Math.min(s.sharedTags, 2) / 2
+        + WEIGHTS.folder / (1 + s.folderDistance)
+        + WEIGHTS.coLinks * Math.min(s.coLinks, 3) / 3;
+    return Math.round(score * 100) / 100;
+}
+
+export function scoreMatch(m: LinkMatch, ctx: RelevanceContext): Relevance {
+    const signals = relevanceSignals(m, ctx);
+    return { score: relevanceScore(signals), signals };
+}
+
+// "Relevance 63%: exact, 1 shared tag, same folder"
+export function describeRelevance(r: Relevance): string {
+    const s = r.signals;
+    const parts = [s.exact ? "exact" : "partial"];
+    if (s.sharedTags > 0) parts.push(`${s.sharedTags} shared tag${s.sharedTags === 1 ? "" : "s"}`);
+    parts.push(s.folderDistance === 0 ? "same folder" : `${s.folderDistance} folder${s.folderDistance === 1 ? "" : "s"} away`);
+    if (s.coLinks > 0) parts.push(`linked from ${s.coLinks} note${s.coLinks === 1 ? "" : "s"} that link here`);
+    return `Relevance ${Math.round(r.score * 100)}%: ${parts.join(", ")}`;
+}
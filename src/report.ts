@@ -0,0 +1,114 @@
+import type { TFile } from "obsidian";
+import type { LinkMatch } from "./matcher";
+
+/* --- VAULT LINKING REPORT --- */
+export const REPORT_BASENAME = "Lazy Links Report";
+
+// The report note and its CSV/JSON exports, which a new report must not count
+export function isReportFile(path: string): boolean {
+    return ["md", "csv", "json"].some(ext => path === `${REPORT_BASENAME}.${ext}`);
+}
+
+export interface ReportRow {
+    name: string; // Note path, or the term for the terms table
+    target?: string; // Terms table: the note the term belongs to
+    mentions: number;
+    notes: number; // Distinct source notes (targets for the sources table)
+    examples?: string[]; // Terms table: a few of the words it matched
+}
+
+export interface LinkReport {
+    generated: string;
+    notesScanned: number;
+    mentions: number;
+    sourcesWithMentions: number;
+    topTargets: ReportRow[];
+    orphans: ReportRow[]; // Targets nothing links to yet
+    topSources: ReportRow[];
+    topTerms: ReportRow[];
+}
+
+const byMentions = (a: ReportRow, b: ReportRow) => b.mentions - a.mentions || b.notes - a.notes || a.name.localeCompare(b.name);
+
+export function buildReport(results: { file: TFile, matches: LinkMatch[] }[], notesScanned: number, backlinks: (path: string) => number, limit = 20, now = new Date()): LinkReport {
+    const targets = new Map<string, { mentions: number, sources: Set<string> }>();
+    const terms = new Map<string, ReportRow & { sources: Set<string> }>();
+    const sources: ReportRow[] = [];
+    let mentions = 0;
+
+    for (const { file, matches } of results) {
+        mentions += matches.length;
+        sources.push({ name: file.path, mentions: matches.length, notes: new Set(matches.map(m => m.target.file.path)).size });
+        for (const m of matches) {
+            const path = m.target.file.path;
+            if (!targets.has(path)) targets.set(path, { mentions: 0, sources: new Set() });
+            const t = targets.get(path)!;
+            t.mentions++;
+            t.sources.add(file.path);
+
+            const termKey = `${m.target.actualName}\n${path}`;
+            if (!terms.has(termKey)) terms.set(termKey, { name: m.target.actualName, target: path, mentions: 0, notes: 0, examples: [], sources: new Set() });
+            const term = terms.get(termKey)!;
+            term.mentions++;
+            term.sources.add(file.path);
+            if (term.examples!.length < 3 && !term.examples!.some(e => e.toLowerCase() === m.word.toLowerCase())) term.examples!.push(m.word);
+        }
+    }
+
+    const targetRows = [...targets].map(([name, t]) => ({ name, mentions: t.mentions, notes: t.sources.size })).sort(byMentions);
+    return {
+        generated: now.toISOString(),
+        notesScanned,
+        mentions,
+        sourcesWithMentions: results.length,
+        topTargets: targetRows.slice(0, limit),
+        orphans: targetRows.filter(r => backlinks(r.name) === 0).slice(0, limit),
+        topSources: sources.sort(byMentions).slice(0, limit),
+        topTerms: [...terms.values()].map(({ sources, ...row }) => ({ ...row, notes: sources.size })).sort(byMentions).slice(0, limit)
+    };
+}
+
+/* --- OUTPUT FORMATS --- */
+const cell = (value: string | number) => String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+function markdownTable(headers: string[], rows: (string | number)[][]): string {
+    if (rows.length === 0) return "_None._\n";
+    const line = (cells: (string | number)[]) => `| ${cells.map(cell).join(" | ")} |`;
+    return [line(headers), line(headers.map(() => "---")), ...rows.map(line)].join("\n") + "\n";
+}
+
+// Paths are code spans rather than links, so the report itself doesn't add backlinks
+export function reportToMarkdown(report: LinkReport, frontmatter: Record<string, string | boolean> = {}): string {
+    const code = (path: string) => `\`${path}\``;
+    const yaml = Object.entries(frontmatter).map(([k, v]) => `${k}: ${v}`);
+    return [
+        ...(yaml.length ? ["---", ...yaml, "---", ""] : []),
+        "# Lazy Links Report",
+        "",
+        `Generated ${report.generated}. ${report.mentions} unlinked mentions in ${report.sourcesWithMentions} of ${report.notesScanned} notes.`,
+        "",
+        "## Most mentioned notes",
+        markdownTable(["Note", "Mentions", "Mentioned in"], report.topTargets.map(r => [code(r.name), r.mentions, r.notes])),
+        "## Orphans that would gain backlinks",
+        markdownTable(["Note", "Mentions", "Mentioned in"], report.orphans.map(r => [code(r.name), r.mentions, r.notes])),
+        "## Notes with the most unlinked mentions",
+        markdownTable(["Note", "Mentions", "Distinct targets"], report.topSources.map(r => [code(r.name), r.mentions, r.notes])),
+        "## Terms with the most matches",
+        markdownTable(["Term", "Note", "Matches", "In notes", "Examples"], report.topTerms.map(r => [r.name, code(r.target!), r.mentions, r.notes, r.examples!.join(", ")]))
+    ].join("\n");
+}
+
+export function reportToCsv(report: LinkReport): string {
+    const quote = (value: string | number) => /[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value);
+    const rows: (string | number)[][] = [["section", "name", "target", "mentions", "notes", "examples"]];
+    const add = (section: string, list: ReportRow[]) => list.forEach(r => rows.push([section, r.name, r.target ?? "", r.mentions, r.notes, (r.examples ?? []).join(" ")]));
+    add("target", report.topTargets);
+    add("orphan", report.orphans);
+    add("source", report.topSources);
+    add("term", report.topTerms);
+    return rows.map(r => r.map(quote).join(",")).join("\n") + "\n";
+}
+
+export function reportToJson(report: LinkReport): string {
+    return JSON.stringify(report, null, 2);
+}
@@ -0,0 +1,59 @@
+import { App, Modal, TFile } from "obsidian";
+import type { LinkMatch } from "./matcher";
+import { previewLink, formatLink, LinkFormatter } from "./links";
+
+export interface PendingLinks {
+    file: TFile;
+    text: string; // Contents at scan time, used for the preview only
+    matches: LinkMatch[];
+}
+
+/* --- BEFORE/AFTER REVIEW --- */
+export class LinkPreviewModal extends Modal {
+    changes: PendingLinks[];
+    onConfirm: () => void;
+    format: (file: TFile) => LinkFormatter; // Links are written relative to each note
+
+    constructor(app: App, changes: PendingLinks[], onConfirm: () => void, format: (file: TFile) => LinkFormatter = () => formatLink) {
+        super(app);
+        this.changes = changes;
+        this.onConfirm = onConfirm;
+        this.format = format;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const total = this.changes.reduce((n, c) => n + c.matches.length, 0);
+        this.titleEl.setText(`Review ${total} link${total === 1 ? "" : "s"} in ${this.changes.length} note${this.changes.length === 1 ? "" : "s"}`);
+        contentEl.addClass("lazy-preview-modal");
+
+        const list = contentEl.createDiv("lazy-preview-list");
+        for (const change of this.changes) {
+            list.createDiv({ text: change.file.path, cls: "lazy-preview-file" });
+            const format = this.format(change.file);
+            for (const m of [...change.matches].sort((a, b) => a.start - b.start)) {
+                const p = previewLink(change.text, m, format);
+                const row = list.createDiv("lazy-preview-row");
+
+                const before = row.createDiv("lazy-preview-before");
+                before.createSpan({ text: p.before.substring(0, p.column) });
+                before.createSpan({ text: m.word, cls: "lazy-preview-removed" });
+                before.createSpan({ text: p.before.substring(p.column + m.word.length) });
+
+                const after = row.createDiv("lazy-preview-after");
+                after.createSpan({ text: p.after.substring(0, p.column) });
+                after.createSpan({ text: p.link, cls: "lazy-preview-added" });
+                after.createSpan({ text: p.after.substring(p.column + p.link.length) });
+            }
+        }
+
+        const buttons = contentEl.createDiv("modal-button-container");
+        buttons.createEl("button", { text: `Apply ${total} link${total === 1 ? "" : "s"}`, cls: "mod-cta" }).onclick = () => {
+            this.close();
+            this.onConfirm();
+        };
+        buttons.createEl("button", { text: "Cancel" }).onclick = () => this.close();
+    }
+
+    onClose() { this.contentEl.empty(); }
+}
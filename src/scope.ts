@@ -0,0 +1,82 @@
+/* --- SCOPE RULES --- */
+// A pattern is either a tag ("#daily", also matching "#daily/2024") or a folder/path glob ("Templates/", "Journal/**/*.md", "Projects/*/Archive")
+
+export interface SourceTargetRule {
+    source: string; // Pattern for the notes being written in
+    targets: string[]; // Patterns for the only notes they may link to
+}
+
+export interface ScopeSettings {
+    targetInclude: string[]; // Empty means every note can be a target
+    targetExclude: string[];
+    sourceExclude: string[];
+    sourceSwitchKey: string; // Frontmatter key that turns highlighting off per note, e.g. "lazy_links: off"
+    sourceTargetRules: SourceTargetRule[];
+}
+
+export function globToRegExp(glob: string): RegExp {
+    let re = "";
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === "*" && glob[i + 1] === "*") {
+            re += ".*";
+            i++;
+            if (glob[i + 1] === "/") i++; // "**/" also matches zero folders
+        } else if (c === "*") re += "[^/]*";
+        else if (c === "?") re += "[^/]";
+        else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+    return new RegExp(`^${re}$`, "i");
+}
+
+export function matchesPattern(path: string, tags: string[], pattern: string): boolean {
+    const p = pattern.trim();
+    if (!p) return false;
+    if (p.startsWith("#")) {
+        const tag = p.toLowerCase();
+        return tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + "/"));
+    }
+    const glob = p.replace(/^\/+/, "");
+    if (!/[*?]/.test(glob)) {
+        const folder = glob.replace(/\/+$/, "").toLowerCase();
+        const lower = path.toLowerCase();
+        return lower === folder || lower.startsWith(folder + "/");
+    }
+    // A glob naming a folder covers everything inside it
+    const regex = globToRegExp(glob.replace(/\/+$/, ""));
+    const parts = path.split("/");
+    for (let i = parts.length; i > 0; i--) {
+        if (regex.test(parts.slice(0, i).join("/"))) return true;
+    }
+    return false;
+}
+
+const matchesAny = (path: string, tags: string[], patterns: string[]) => patterns.some(p => matchesPattern(path, tags, p));
+
+export function isTargetAllowed(path: string, tags: string[], settings: ScopeSettings): boolean {
+    if (matchesAny(path, tags, settings.targetExclude)) return false;
+    const include = settings.targetInclude.filter(p => p.trim());
+    return include.length === 0 || matchesAny(path, tags, include);
+}
+
+// Frontmatter switches: false, "off", "false" or "no"
+export function isSwitchedOff(value: any): boolean {
+    return value === false || (typeof value === "string" && ["off", "false", "no"].includes(value.trim().toLowerCase()));
+}
+
+export function isSourceEnabled(path: string, tags: string[], frontmatter: Record<string, any> | undefined, settings: ScopeSettings): boolean {
+    const key = settings.sourceSwitchKey.trim();
+    if (key && frontmatter && isSwitchedOff(frontmatter[key])) return false;
+    return !matchesAny(path, tags, settings.sourceExclude);
+}
+
+// Target restrictions for one source note, or null when every (indexed) target is fine
+export function targetRestrictions(sourcePath: string, sourceTags: string[], settings: ScopeSettings): string[][] | null {
+    const rules = settings.sourceTargetRules.filter(r => r.source.trim() && matchesPattern(sourcePath, sourceTags, r.source));
+    return rules.length > 0 ? rules.map(r => r.targets) : null;
+}
+
+// Every applicable rule must allow the target
+export function isTargetAllowedFrom(restrictions: string[][], targetPath: string, targetTags: string[]): boolean {
+    return restrictions.every(patterns => matchesAny(targetPath, targetTags, patterns));
+}
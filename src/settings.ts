@@ -0,0 +1,93 @@
+import type { TieBreakRule } from "./ranking";
+import type { ScopeSettings } from "./scope";
+import type { IgnoreRule } from "./ignores";
+import type { NoiseSettings } from "./noise";
+
+/* --- CONSTANTS & SETTINGS --- */
+export const VIEW_TYPE_LAZY_LINKS = "lazy-links-view";
+
+export interface LazyLinksSettings extends ScopeSettings, NoiseSettings {
+    matchStart: boolean;
+    matchEnd: boolean;
+    matchMiddle: boolean;
+    minMatchLength: number;
+    includeHeaders: boolean;
+    includeBlocks: boolean; // Blocks with an ^id that declare a term in a "lazy_term" comment
+    includeListItems: boolean; // List items with an ^id, matched by their label
+    attachmentExtensions: string[]; // Other file types matched by name, e.g. ["canvas", "pdf"]
+    headerLevels: Record<string, boolean>;
+    enableReadingMode: boolean;
+    firstMentionStyle: string;
+    subsequentMentionStyle: string;
+    customAccentColor: string;
+    ignoredWords: string[];
+    ignoreRules: IgnoreRule[]; // Per mention, per note and per target-from-folder ignores
+    caseSensitiveAllCaps: boolean; // Treat names like "IT" or "US" as case-sensitive
+    termsKey: string; // Frontmatter keys for extra match terms, terms not to match and regex patterns
+    excludeTermsKey: string;
+    patternsKey: string;
+    showHighlights: boolean;
+    suggestWhileTyping: boolean;
+    suggestFirstMentionOnly: boolean;
+    autoLinkMode: "off" | "word" | "leave"; // Convert mentions automatically once a word is typed, or when leaving/saving the note
+    autoLinkMentions: "first" | "all";
+    autoLinkSwitchKey: string; // Frontmatter key that opts a note out, e.g. "lazy_autolink: off"
+    reportExport: "none" | "csv" | "json"; // Written next to the markdown report
+    tieBreakRules: TieBreakRule[]; // Enabled rules, in priority order
+    highlightInHeadings: boolean;
+    highlightInTables: boolean;
+    highlightInCallouts: boolean;
+    characterMatching: "auto" | "always" | "off"; // Substring matching for scripts written without spaces
+    matchMode: "affix" | "morphology"; // Partial matches by start/end/middle, or by word forms
+    morphologyLanguages: string[]; // Stemmer ids used in morphology mode
+    relevanceThreshold: number; // Percent; mentions scoring below it are hidden or shown faintly, 0 turns this off
+    lowRelevance: "hide" | "faint";
+}
+
+export const DEFAULT_SETTINGS: LazyLinksSettings = {
+    matchStart: true,
+    matchEnd: true,
+    matchMiddle: false,
+    minMatchLength: 3,
+    includeHeaders: false,
+    includeBlocks: true,
+    includeListItems: false,
+    attachmentExtensions: [],
+    headerLevels: { h1: true, h2: true, h3: true, h4: false, h5: false, h6: false },
+    enableReadingMode: true,
+    firstMentionStyle: "full",
+    subsequentMentionStyle: "minimal",
+    customAccentColor: "",
+    ignoredWords: [],
+    ignoreRules: [],
+    caseSensitiveAllCaps: true,
+    termsKey: "lazy_terms",
+    excludeTermsKey: "lazy_exclude_terms",
+    patternsKey: "lazy_patterns",
+    showHighlights: true,
+    suggestWhileTyping: false,
+    suggestFirstMentionOnly: true,
+    autoLinkMode: "off",
+    autoLinkMentions: "first",
+    autoLinkSwitchKey: "lazy_autolink",
+    reportExport: "none",
+    tieBreakRules: ["same-folder", "most-backlinks", "recently-modified"],
+    highlightInHeadings: true,
+    highlightInTables: true,
+    highlightInCallouts: true,
+    characterMatching: "auto",
+    matchMode: "affix",
+    morphologyLanguages: ["en"],
+    relevanceThreshold: 0,
+    lowRelevance: "faint",
+    targetInclude: [],
+    targetExclude: [],
+    sourceExclude: [],
+    sourceSwitchKey: "lazy_links",
+    sourceTargetRules: [],
+    stopwordLanguages: ["en"],
+    customStopwords: [],
+    suppressCommonTerms: false,
+    commonTermThreshold: 20,
+    pinnedTerms: []
+};
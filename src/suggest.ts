@@ -0,0 +1,32 @@
+import { LinkMatch, MatchTarget, describeTerm } from "./matcher";
+import { describeSubpath } from "./targets";
+
+/* --- INLINE SUGGESTIONS --- */
+export interface LinkSuggestion {
+    match: LinkMatch;
+    target: MatchTarget;
+}
+
+// The mention ending exactly at the cursor offset, if any (what was just typed)
+export function matchEndingAt(matches: LinkMatch[], offset: number): LinkMatch | null {
+    return matches.find(m => m.end === offset) ?? null;
+}
+
+// No match before it mentions the same term
+export function isFirstMention(earlier: LinkMatch[], m: LinkMatch): boolean {
+    return !earlier.some(e => e.key === m.key && e.start < m.start);
+}
+
+// One suggestion per candidate note, in ranked order
+export function suggestionsFor(m: LinkMatch | null): LinkSuggestion[] {
+    return m ? m.candidates.map(target => ({ match: m, target })) : [];
+}
+
+// Title plus a second line: the path when several notes share the term, else the alias or term that matched
+export function suggestionText(s: LinkSuggestion): { title: string, note: string | null } {
+    const name = s.target.subpath ? `${s.target.file.basename} > ${describeSubpath(s.target.subpath)}` : s.target.file.basename;
+    let note: string | null = null;
+    if (s.match.candidates.length > 1) note = s.target.file.path;
+    else if (s.target.source && s.target.source !== "name") note = `via ${describeTerm(s.target)}`;
+    return { title: `Link to "${name}"`, note };
+}
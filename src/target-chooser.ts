@@ -0,0 +1,28 @@
+import { App, SuggestModal } from "obsidian";
+import type { MatchTarget } from "./matcher";
+import { describeSubpath } from "./targets";
+
+/* --- "LINK TO…" CHOOSER FOR AMBIGUOUS TERMS --- */
+export class TargetChooserModal extends SuggestModal<MatchTarget> {
+    candidates: MatchTarget[];
+    onChoose: (target: MatchTarget) => void;
+
+    constructor(app: App, word: string, candidates: MatchTarget[], onChoose: (target: MatchTarget) => void) {
+        super(app);
+        this.candidates = candidates;
+        this.onChoose = onChoose;
+        this.setPlaceholder(`Link "${word}" to…`);
+    }
+
+    getSuggestions(query: string): MatchTarget[] {
+        const q = query.toLowerCase();
+        return this.candidates.filter(t => (t.file.path + (t.subpath || "")).toLowerCase().includes(q));
+    }
+
+    renderSuggestion(target: MatchTarget, el: HTMLElement) {
+        el.createDiv({ text: target.subpath ? `${target.file.basename} > ${describeSubpath(target.subpath)}` : target.file.basename });
+        el.createEl("small", { text: target.file.path, cls: "lazy-chooser-path" });
+    }
+
+    onChooseSuggestion(target: MatchTarget) { this.onChoose(target); }
+}
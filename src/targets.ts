@@ -0,0 +1,63 @@
+/* --- HEADING & BLOCK TARGETS --- */
+export interface HeadingInfo {
+    heading: string;
+    level: number;
+}
+
+// Subpath for each heading, in order: "#Heading" when no other heading in the note has the same text, the full "#Parent#Child" path otherwise
+export function headingSubpaths(headings: HeadingInfo[]): string[] {
+    const counts = new Map<string, number>();
+    headings.forEach(h => counts.set(h.heading.toLowerCase(), (counts.get(h.heading.toLowerCase()) || 0) + 1));
+    const parents: HeadingInfo[] = [];
+    return headings.map(h => {
+        while (parents.length > 0 && parents[parents.length - 1].level >= h.level) parents.pop();
+        parents.push(h);
+        return counts.get(h.heading.toLowerCase())! > 1 ? "#" + parents.map(p => p.heading).join("#") : `#${h.heading}`;
+    });
+}
+
+// "#Parent#Child" → "Parent > Child", "#^id" → "^id"
+export function describeSubpath(subpath: string): string {
+    return subpath.replace(/^#/, "").split("#").join(" > ");
+}
+
+export interface BlockInfo {
+    id: string; // Without the "^"
+    text: string; // Source of the block, including its "^id"
+    isListItem: boolean;
+}
+
+export interface BlockTerm {
+    id: string;
+    term: string;
+}
+
+const TERM_COMMENT = /(?:%%|<!--)\s*lazy_term:\s*(.+?)\s*(?:%%|-->)/g;
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+
+// What a list item is about: a bold lead-in, the part before a colon or dash, or the whole item when it is short
+export function listItemLabel(text: string): string | null {
+    const item = text.split("\n")[0].replace(LIST_MARKER, "").replace(TERM_COMMENT, "").replace(/\s*\^[\w-]+\s*$/, "").trim();
+    const bold = item.match(/^(\*\*|__)(.+?)\1/);
+    if (bold) return bold[2].trim();
+    const lead = item.match(/^(.+?)\s*(?::\s|\s[-–—]\s)/);
+    const label = lead ? lead[1] : item;
+    return label && label.split(/\s+/).length <= 6 ? label : null;
+}
+
+// Terms for blocks that have an id: every "%% lazy_term: … %%" comment in the block, else a list item's label
+export function blockTerms(blocks: BlockInfo[], options: { comments: boolean, listItems: boolean }): BlockTerm[] {
+    const terms: BlockTerm[] = [];
+    for (const block of blocks) {
+        const declared: string[] = [];
+        const comments = new RegExp(TERM_COMMENT.source, "g");
+        for (let m = comments.exec(block.text); m; m = comments.exec(block.text)) declared.push(m[1]);
+        if (declared.length > 0) {
+            if (options.comments) declared.forEach(term => terms.push({ id: block.id, term }));
+        } else if (options.listItems && block.isListItem) {
+            const label = listItemLabel(block.text);
+            if (label) terms.push({ id: block.id, term: label });
+        }
+    }
+    return terms;
+}
@@ -0,0 +1,161 @@
+/* --- MARKDOWN EXCLUSION ZONES --- */
+// Stretches of a note where mentions must not be highlighted (code, links, tags, ...) or only optionally (headings, tables, callouts)
+
+export type ZoneKind =
+    | "frontmatter" | "code" | "math" | "comment" | "html" | "link" | "url" | "tag" | "callout-meta"
+    | "heading" | "table" | "callout";
+
+export interface Zone {
+    from: number;
+    to: number;
+    kind: ZoneKind;
+}
+
+export interface ZoneSettings {
+    highlightInHeadings: boolean;
+    highlightInTables: boolean;
+    highlightInCallouts: boolean;
+}
+
+// Drops the zones the user allows highlighting in; what remains is excluded
+export function excludedZones(zones: Zone[], settings: ZoneSettings): Zone[] {
+    return zones.filter(z =>
+        !(z.kind === "heading" && settings.highlightInHeadings) &&
+        !(z.kind === "table" && settings.highlightInTables) &&
+        !(z.kind === "callout" && settings.highlightInCallouts));
+}
+
+/* --- INLINE ZONES --- */
+// In priority order: when two patterns start at the same position the earlier one wins
+const INLINE_PATTERNS: [ZoneKind, RegExp][] = [
+    ["comment", /%%[\s\S]*?%%/g],
+    ["code", /(`+)[^`\n][^\n]*?\1/g],
+    ["math", /\$\$[\s\S]*?\$\$|\$[^\s$](?:[^$\n]*?[^\s$])?\$(?!\d)/g],
+    ["link", /!?\[\[[^\]\n]*\]\]|!?\[[^\]\n]*\]\([^)\n]*\)/g],
+    ["url", /\b(?:https?|file|obsidian):\/\/[^\s<>()[\]]+|\bwww\.[^\s<>()[\]]+/g],
+    ["tag", /(^|[\s(])#[\p{L}\d_/-]+/gu],
+    ["html", /<\/?[A-Za-z][^>\n]*>/g],
+    ["callout-meta", /^[ \t]*(?:>[ \t]*)+\[![^\]\n]*\][+-]?/gm]
+];
+
+export function findInlineZones(text: string, offset = 0): Zone[] {
+    const zones: Zone[] = [];
+    // Next hit per pattern, re-searched only once the scan has moved past it
+    const next: ({ from: number, to: number } | null | undefined)[] = INLINE_PATTERNS.map(() => undefined);
+    const search = (idx: number, pos: number) => {
+        const [kind, regex] = INLINE_PATTERNS[idx];
+        regex.lastIndex = pos;
+        let match;
+        while ((match = regex.exec(text)) !== null) {
+            let from = match.index;
+            const to = match.index + match[0].length;
+            if (kind === "tag") {
+                from += match[1].length; // Leading whitespace/paren belongs to the text
+                if (/^#\d+$/.test(text.substring(from, to))) { regex.lastIndex = Math.max(to, match.index + 1); continue; } // "#123" is not a tag
+            }
+            return { from, to };
+        }
+        return null;
+    };
+
+    let pos = 0;
+    while (pos < text.length) {
+        // Leftmost match wins, so a "$" inside inline code never opens math
+        let bestIdx = -1;
+        for (let i = 0; i < INLINE_PATTERNS.length; i++) {
+            const cached = next[i];
+            if (cached === undefined || (cached && cached.from < pos)) next[i] = search(i, pos);
+            const hit = next[i];
+            if (hit && (bestIdx === -1 || hit.from < next[bestIdx]!.from)) bestIdx = i;
+        }
+        if (bestIdx === -1) break;
+        const best = next[bestIdx]!;
+        zones.push({ kind: INLINE_PATTERNS[bestIdx][0], from: offset + best.from, to: offset + best.to });
+        pos = Math.max(best.to, best.from + 1);
+    }
+    return zones;
+}
+
+/* --- BLOCK ZONES --- */
+const FENCE = /^[ \t]*(`{3,}|~{3,})/;
+const TABLE_SEPARATOR = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+// Line-based scan for frontmatter, fenced code, headings, tables and callouts
+export function findBlockZones(text: string, offset = 0): Zone[] {
+    const zones: Zone[] = [];
+    const lines = text.split("\n");
+    const starts: number[] = [];
+    let acc = 0;
+    for (const line of lines) { starts.push(acc); acc += line.length + 1; }
+    const lineEnd = (i: number) => starts[i] + lines[i].length;
+    const push = (kind: ZoneKind, first: number, last: number) => zones.push({ kind, from: offset + starts[first], to: offset + lineEnd(last) });
+
+    let i = 0;
+    if (offset === 0 && lines[0] === "---") {
+        const close = lines.findIndex((l, idx) => idx > 0 && (l === "---" || l === "..."));
+        if (close > 0) { push("frontmatter", 0, close); i = close + 1; }
+    }
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const fence = FENCE.exec(line);
+        if (fence) {
+            let end = i + 1;
+            while (end < lines.length && !lines[end].trimStart().startsWith(fence[1])) end++;
+            push("code", i, Math.min(end, lines.length - 1));
+            i = end + 1;
+            continue;
+        }
+        if (/^#{1,6}([ \t]|$)/.test(line)) {
+            push("heading", i, i);
+            i++;
+            continue;
+        }
+        if (/^[ \t]*(>[ \t]*)+\[!/.test(line)) {
+            let end = i;
+            while (end + 1 < lines.length && /^[ \t]*>/.test(lines[end + 1])) end++;
+            push("callout", i, end);
+            i = end + 1;
+            continue;
+        }
+        if (line.includes("|") && i + 1 < lines.length && lines[i + 1].includes("-") && TABLE_SEPARATOR.test(lines[i + 1])) {
+            let end = i + 1;
+            while (end + 1 < lines.length && lines[end + 1].includes("|") && lines[end + 1].trim() !== "") end++;
+            push("table", i, end);
+            i = end + 1;
+            continue;
+        }
+        i++;
+    }
+    return zones;
+}
+
+export function findMarkdownZones(text: string): Zone[] {
+    return [...findBlockZones(text), ...findInlineZones(text)];
+}
+
+/* --- METADATA CACHE SECTIONS --- */
+export interface SectionLike {
+    type: string;
+    position: { start: { offset: number }, end: { offset: number } };
+}
+
+const SECTION_KINDS: Record<string, ZoneKind> = {
+    yaml: "frontmatter",
+    code: "code",
+    math: "math",
+    comment: "comment",
+    html: "html",
+    heading: "heading",
+    table: "table",
+    callout: "callout"
+};
+
+export function sectionZones(sections: SectionLike[]): Zone[] {
+    const zones: Zone[] = [];
+    for (const s of sections) {
+        const kind = SECTION_KINDS[s.type];
+        if (kind) zones.push({ kind, from: s.position.start.offset, to: s.position.end.offset });
+    }
+    return zones;
+}
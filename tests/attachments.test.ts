@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import { parseExtensions, attachmentKind, canvasText } from "../src/attachments";
+import { linkAlias } from "../src/links";
+
+const file = (name: string) => {
+    const dot = name.lastIndexOf(".");
+    return { basename: name.substring(0, dot), extension: name.substring(dot + 1), name, path: name } as TFile;
+};
+
+test("extensions are normalized and markdown is left out", () => {
+    assert.deepEqual(parseExtensions("Canvas, .pdf  png,pdf, md"), ["canvas", "pdf", "png"]);
+    assert.deepEqual(parseExtensions(""), []);
+});
+
+test("attachment kinds", () => {
+    assert.equal(attachmentKind(file("Roadmap.md")), null);
+    assert.equal(attachmentKind(file("Q3 Roadmap.canvas")), "canvas");
+    assert.equal(attachmentKind(file("Paper.PDF")), "pdf");
+    assert.equal(attachmentKind(file("Diagram.png")), "image");
+    assert.equal(attachmentKind(file("Data.csv")), "other");
+});
+
+test("attachment links keep the word as display text", () => {
+    assert.equal(linkAlias("Q3 Roadmap", { file: file("Q3 Roadmap.canvas"), actualName: "Q3 Roadmap" }), "Q3 Roadmap");
+    assert.equal(linkAlias("Roadmap", { file: file("Roadmap.md"), actualName: "Roadmap" }), undefined);
+});
+
+test("canvas text lists cards, then groups and placed files", () => {
+    const canvas = JSON.stringify({ nodes: [
+        { type: "file", file: "Projects/Launch.md" },
+        { type: "text", text: "Ship the beta\nin March" },
+        { type: "group", label: "Q3" },
+        { type: "text", text: "  " }
+    ] });
+    assert.deepEqual(canvasText(canvas), ["Ship the beta\nin March", "Q3", "Launch"]);
+    assert.deepEqual(canvasText("not json"), []);
+});
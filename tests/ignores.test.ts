@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import type { LinkMatch, MatchTarget } from "../src/matcher";
+import { IgnoreRule, occurrenceContext, dropIgnored, isTargetIgnored, renameIgnorePaths } from "../src/ignores";
+
+const target = (path: string): MatchTarget => ({ file: { basename: path.replace(/^.*\//, "").replace(/\.md$/, ""), path } as TFile, actualName: path });
+
+const matchesOf = (text: string, word: string, t = target("Python.md")): LinkMatch[] => {
+    const found: LinkMatch[] = [];
+    for (let i = text.indexOf(word); i !== -1; i = text.indexOf(word, i + 1)) {
+        found.push({ start: i, end: i + word.length, word, target: t, candidates: [t], key: word.toLowerCase() });
+    }
+    return found;
+};
+
+const rule = (overrides: Partial<IgnoreRule>): IgnoreRule => ({ scope: "note", term: "python", sourcePath: "Note.md", created: 0, ...overrides });
+
+test("occurrence context stays on the line", () => {
+    assert.deepEqual(occurrenceContext("first\nI like Python a lot\nlast", 13, 19), { before: "I like ", after: " a lot" });
+});
+
+test("an ignored occurrence is found again after edits elsewhere", () => {
+    const text = "Python here.\nI like Python a lot.";
+    const start = text.lastIndexOf("Python");
+    const ignore = rule({ scope: "occurrence", ...occurrenceContext(text, start, start + 6) });
+
+    const edited = "New intro. Python here.\n\nI like Python a lot.";
+    const kept = dropIgnored(matchesOf(edited, "Python"), [ignore], "Note.md", edited);
+    assert.deepEqual(kept.map(m => m.start), [11]);
+    assert.equal(dropIgnored(matchesOf(edited, "Python"), [ignore], "Other.md", edited).length, 2);
+});
+
+test("occurrences are recognised in a slice of the note", () => {
+    const text = "I like Python a lot.";
+    const ignore = rule({ scope: "occurrence", ...occurrenceContext(text, 7, 13) });
+    const slice = "Python a lot.";
+    const [m] = matchesOf(slice, "Python").map(m => ({ ...m, start: m.start + 7, end: m.end + 7 }));
+    assert.deepEqual(dropIgnored([m], [ignore], "Note.md", slice, 7), []);
+});
+
+test("a shorter context on another line is a different occurrence", () => {
+    const text = "I really like Python\nlike Python";
+    const ignore = rule({ scope: "occurrence", ...occurrenceContext(text, 14, 20) });
+    assert.deepEqual(dropIgnored(matchesOf(text, "Python"), [ignore], "Note.md", text).map(m => m.start), [26]);
+});
+
+test("note rules drop every mention of the term in that note", () => {
+    const text = "Python and Python";
+    assert.deepEqual(dropIgnored(matchesOf(text, "Python"), [rule({})], "Note.md", text), []);
+});
+
+test("folder rules block a target for notes inside the folder", () => {
+    const rules = [rule({ scope: "folder", sourcePath: "Work", targetPath: "Python.md" })];
+    assert.ok(isTargetIgnored(rules, "Work/Sub/Note.md", target("Python.md")));
+    assert.ok(!isTargetIgnored(rules, "Home/Note.md", target("Python.md")));
+    assert.ok(!isTargetIgnored(rules, "Work/Note.md", target("Rust.md")));
+    assert.ok(isTargetIgnored([rule({ scope: "folder", sourcePath: "", targetPath: "Python.md" })], "Note.md", target("Python.md")));
+});
+
+test("renames move rules along", () => {
+    const rules = [rule({}), rule({ scope: "folder", sourcePath: "Work", targetPath: "Work/Python.md" })];
+    assert.ok(renameIgnorePaths(rules, "Work", "Job"));
+    assert.equal(rules[1].sourcePath, "Job");
+    assert.equal(rules[1].targetPath, "Job/Python.md");
+    assert.ok(renameIgnorePaths(rules, "Note.md", "Notes/Note.md"));
+    assert.equal(rules[0].sourcePath, "Notes/Note.md");
+    assert.ok(!renameIgnorePaths(rules, "Other.md", "Else.md"));
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import type { LinkMatch, MatchTarget } from "../src/matcher";
+import { formatLink, applyLinks, previewLink, pickAutoLinks, unchangedMatches } from "../src/links";
+
+const target = (basename: string, actualName = basename, subpath?: string): MatchTarget =>
+    ({ file: { basename, path: `${basename}.md` } as TFile, actualName, subpath });
+
+const match = (text: string, word: string, t: MatchTarget, from = 0): LinkMatch => {
+    const start = text.indexOf(word, from);
+    return { start, end: start + word.length, word, target: t, candidates: [t], key: t.actualName.toLowerCase() };
+};
+
+test("formats plain, aliased and heading links", () => {
+    assert.equal(formatLink("Python", target("Python")), "[[Python]]");
+    assert.equal(formatLink("python", target("Python")), "[[Python]]");
+    assert.equal(formatLink("Pythonic", target("Python")), "[[Python|Pythonic]]");
+    assert.equal(formatLink("Setup", target("Guide", "Setup", "#Setup")), "[[Guide#Setup|Setup]]");
+});
+
+test("aliases keep their own display text", () => {
+    assert.equal(formatLink("Py", target("Python", "Py")), "[[Python|Py]]");
+});
+
+test("applies links through a custom formatter", () => {
+    const text = "use Python";
+    const md = (word: string, t: MatchTarget) => `[${word}](${encodeURI(t.file.path)})`;
+    assert.equal(applyLinks(text, [match(text, "Python", target("Python"))], md).text, "use [Python](Python.md)");
+});
+
+test("applies several links in one pass", () => {
+    const text = "Python and Rust and Python";
+    const py = target("Python"), rust = target("Rust");
+    const result = applyLinks(text, [match(text, "Python", py), match(text, "Rust", rust), match(text, "Python", py, 5)]);
+    assert.equal(result.text, "[[Python]] and [[Rust]] and [[Python]]");
+    assert.equal(result.applied, 3);
+});
+
+test("skips matches that no longer fit the text", () => {
+    const scanned = "Python and Rust";
+    const stale = [match(scanned, "Python", target("Python")), match(scanned, "Rust", target("Rust"))];
+    const result = applyLinks("Jython and Rust", stale);
+    assert.equal(result.text, "Jython and [[Rust]]");
+    assert.equal(result.applied, 1);
+});
+
+test("keeps only matches an edit hasn't moved", () => {
+    const scanned = "Python and Rust";
+    const found = [match(scanned, "Python", target("Python")), match(scanned, "Rust", target("Rust"))];
+    const edited = "I like Python and Rust";
+    assert.deepEqual(unchangedMatches(found, (start, end) => edited.substring(start, end)), []);
+    assert.deepEqual(unchangedMatches(found, (start, end) => "Python or Rust!".substring(start, end)).map(m => m.word), ["Python"]);
+    assert.equal(unchangedMatches(found, (start, end) => scanned.substring(start, end)).length, 2);
+});
+
+test("previews the changed line only", () => {
+    const text = "first line\nsome Python here\nlast line";
+    const p = previewLink(text, match(text, "Python", target("Python")));
+    assert.equal(p.before, "some Python here");
+    assert.equal(p.after, "some [[Python]] here");
+    assert.equal(p.column, 5);
+});
+
+test("auto-linking picks the first unlinked mention per note", () => {
+    const text = "Rust, Python, Rust and Python";
+    const py = target("Python"), rust = target("Rust");
+    const matches = [match(text, "Python", py, 10), match(text, "Rust", rust), match(text, "Python", py), match(text, "Rust", rust, 5)];
+    assert.deepEqual(pickAutoLinks(matches, "first").map(m => [m.word, m.start]), [["Rust", 0], ["Python", 6]]);
+    assert.deepEqual(pickAutoLinks(matches, "first", new Set(["Rust.md"])).map(m => m.word), ["Python"]);
+    assert.equal(pickAutoLinks(matches, "all").length, 4);
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import { ChangeSet, Text } from "@codemirror/state";
+import { LinkMatcher, MatchTarget } from "../src/matcher";
+import { EditorMatchCache, mergeRanges, subtractRanges, touchesBlockSyntax, remember } from "../src/match-cache";
+
+const matcher = new LinkMatcher({
+    matchStart: true, matchEnd: false, matchMiddle: false, minMatchLength: 3, ignoredWords: [], characterMatching: "auto", matchMode: "affix", morphologyLanguages: ["en"]
+});
+for (const term of ["Python", "Rust", "Machine Learning"]) {
+    const target: MatchTarget = { file: { basename: term, path: `${term}.md` } as TFile, actualName: term };
+    matcher.addTerm(term, target);
+}
+
+const scan = (cache: EditorMatchCache, doc: Text) => {
+    for (const r of cache.missing([{ from: 0, to: doc.length }], doc)) {
+        cache.add(r, matcher.findMatches(doc.sliceString(r.from, r.to), new Set(), { offset: r.from }));
+    }
+    return cache.matches.map(m => [m.start, m.end, m.word]);
+};
+const fullScan = (doc: Text) => matcher.findMatches(doc.toString(), new Set()).map(m => [m.start, m.end, m.word]);
+
+test("ranges merge and subtract", () => {
+    assert.deepEqual(mergeRanges([{ from: 10, to: 20 }, { from: 0, to: 5 }, { from: 6, to: 8 }]), [{ from: 0, to: 8 }, { from: 10, to: 20 }]);
+    assert.deepEqual(subtractRanges([{ from: 0, to: 20 }], [{ from: 5, to: 9 }]), [{ from: 0, to: 4 }, { from: 10, to: 20 }]);
+});
+
+test("edits rescan only the changed lines and give the same matches as a full scan", () => {
+    let doc = Text.of(["I like Python.", "Rust is fast.", "Nothing here.", "Machine Learning too."]);
+    const cache = new EditorMatchCache();
+    assert.deepEqual(scan(cache, doc), fullScan(doc));
+
+    const edits = [
+        { from: 0, insert: "Some Rust and " }, // Shifts everything after it
+        { from: doc.line(3).from, to: doc.line(3).to, insert: "Python again" },
+        { from: doc.line(2).to - 1, insert: "\nMachine" } // Splits a line
+    ];
+    for (const spec of edits) {
+        const changes = ChangeSet.of(spec, doc.length);
+        doc = changes.apply(doc);
+        cache.applyChanges(changes, doc);
+        const unchanged = cache.scanned.reduce((n, r) => n + r.to - r.from, 0);
+        assert.ok(unchanged > 0, "lines away from the edit stay scanned");
+        assert.deepEqual(scan(cache, doc), fullScan(doc));
+    }
+});
+
+test("typing onto a word drops its stale match", () => {
+    let doc = Text.of(["Rust"]);
+    const cache = new EditorMatchCache();
+    scan(cache, doc);
+    const changes = ChangeSet.of({ from: 4, insert: "y" }, doc.length);
+    doc = changes.apply(doc);
+    cache.applyChanges(changes, doc);
+    assert.deepEqual(cache.matches, []);
+    assert.deepEqual(scan(cache, doc), fullScan(doc));
+});
+
+test("edits touching block syntax are detected", () => {
+    const doc = Text.of(["text", "more"]);
+    const fence = ChangeSet.of({ from: 0, insert: "```\n" }, doc.length);
+    const plain = ChangeSet.of({ from: 0, insert: "word " }, doc.length);
+    assert.equal(touchesBlockSyntax(fence, doc, fence.apply(doc)), true);
+    assert.equal(touchesBlockSyntax(plain, doc, plain.apply(doc)), false);
+});
+
+test("remember keeps the most recently used entries", () => {
+    const cache = new Map<string, number>();
+    remember(cache, "a", 1, 2);
+    remember(cache, "b", 2, 2);
+    remember(cache, "a", 1, 2);
+    remember(cache, "c", 3, 2);
+    assert.deepEqual([...cache.keys()], ["a", "c"]);
+});
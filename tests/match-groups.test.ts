@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import type { LinkMatch, MatchTarget } from "../src/matcher";
+import { groupMatches, matchesQuery } from "../src/match-groups";
+
+const target = (basename: string, subpath?: string): MatchTarget => ({ file: { basename, path: `Notes/${basename}.md` } as TFile, actualName: basename, subpath });
+const at = (start: number, word: string, t: MatchTarget): LinkMatch => ({ start, end: start + word.length, word, target: t, candidates: [t], key: word.toLowerCase() });
+
+const rust = target("Rust"), python = target("Python"), install = target("Python", "#Install");
+const matches = [at(50, "Rust", rust), at(10, "Python", python), at(30, "install", install), at(5, "Rust", rust), at(70, "Python", python)];
+
+test("groups by note and sorts by count, name or first position", () => {
+    assert.deepEqual(groupMatches(matches, "target", "count").map(g => [g.label, g.matches.length]), [["Python", 3], ["Rust", 2]]);
+    assert.deepEqual(groupMatches(matches, "target", "position").map(g => g.label), ["Rust", "Python"]);
+    assert.deepEqual(groupMatches(matches, "target", "name")[1].matches.map(m => m.start), [5, 50]);
+});
+
+test("groups by heading subpath", () => {
+    assert.deepEqual(groupMatches(matches, "heading", "name").map(g => g.label), ["Python", "Python > Install", "Rust"]);
+});
+
+test("filters by mention, note or heading", () => {
+    assert.ok(matchesQuery(at(0, "install", install), "INST"));
+    assert.ok(matchesQuery(at(0, "Rust", rust), "notes/"));
+    assert.deepEqual(groupMatches(matches, "target", "count", "rus").map(g => g.label), ["Rust"]);
+    assert.deepEqual(groupMatches(matches, "heading", "count", "install").map(g => g.key), ["Notes/Python.md#Install"]);
+});
+
+test("sorts by best relevance in the group", () => {
+    const scored = (m: LinkMatch, score: number): LinkMatch => ({ ...m, relevance: { score, signals: { exact: true, sharedTags: 0, folderDistance: 0, coLinks: 0 } } });
+    const groups = groupMatches([scored(at(5, "Rust", rust), 0.8), scored(at(10, "Python", python), 0.3), scored(at(70, "Python", python), 0.5)], "target", "score");
+    assert.deepEqual(groups.map(g => [g.label, g.score]), [["Rust", 0.8], ["Python", 0.5]]);
+});
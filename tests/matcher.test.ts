@@ -0,0 +1,278 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import { LinkMatcher, MatchSettings, MatchTarget, isAllCaps, describeTerm } from "../src/matcher";
+
+const file = (basename: string) => ({ basename, path: `${basename}.md` } as TFile);
+
+function makeMatcher(terms: string[], overrides: Partial<MatchSettings> = {}) {
+    const matcher = new LinkMatcher({
+        matchStart: false, matchEnd: false, matchMiddle: false, minMatchLength: 3, ignoredWords: [], characterMatching: "auto", matchMode: "affix", morphologyLanguages: ["en"], ...overrides
+    });
+    for (const term of terms) {
+        const target: MatchTarget = { file: file(term), actualName: term };
+        matcher.addTerm(term, target);
+    }
+    return matcher;
+}
+
+const words = (matcher: LinkMatcher, text: string, selfNames = new Set<string>()) =>
+    matcher.findMatches(text, selfNames).map(m => m.word);
+
+test("prefers the longest phrase over single words", () => {
+    const matcher = makeMatcher(["Machine", "Machine Learning", "Learning"]);
+    const matches = matcher.findMatches("I study machine learning and learning theory", new Set());
+    assert.deepEqual(matches.map(m => m.word), ["machine learning", "learning"]);
+    assert.equal(matches[0].target.actualName, "Machine Learning");
+    assert.equal(matches[1].target.actualName, "Learning");
+});
+
+test("falls back to single words when a phrase is incomplete", () => {
+    const matcher = makeMatcher(["Machine", "Machine Learning"]);
+    assert.deepEqual(words(matcher, "a machine that learns"), ["machine"]);
+});
+
+test("reports absolute positions with an offset", () => {
+    const matcher = makeMatcher(["Python"]);
+    const [m] = matcher.findMatches("use Python", new Set(), { offset: 100 });
+    assert.equal(m.start, 104);
+    assert.equal(m.end, 110);
+    assert.equal(m.key, "python");
+});
+
+test("skips text inside existing wikilinks and markdown links", () => {
+    const matcher = makeMatcher(["Python", "Machine Learning"]);
+    assert.deepEqual(words(matcher, "[[Python]] and [Python](https://python.org) but Python"), ["Python"]);
+    assert.deepEqual(words(matcher, "machine [[x]] learning"), []);
+});
+
+test("partial matches follow the start/end/middle settings", () => {
+    const text = "Pythonic pythons and unpythonlike code";
+    assert.deepEqual(words(makeMatcher(["Python"]), text), []);
+    assert.deepEqual(words(makeMatcher(["Python"], { matchStart: true }), text), ["Pythonic", "pythons"]);
+    assert.deepEqual(words(makeMatcher(["Python"], { matchEnd: true }), "cpython and pythons"), ["cpython"]);
+    assert.deepEqual(words(makeMatcher(["Python"], { matchMiddle: true }), text), ["unpythonlike"]);
+});
+
+test("partial matches respect the minimum match length", () => {
+    const matcher = makeMatcher(["AI", "Art"], { matchStart: true, minMatchLength: 3 });
+    assert.deepEqual(words(matcher, "aim for artistry, ai"), ["artistry", "ai"]);
+});
+
+test("partial matches prefer the longest term", () => {
+    const matcher = makeMatcher(["Art", "Artificial"], { matchStart: true });
+    const [m] = matcher.findMatches("artificially", new Set());
+    assert.equal(m.target.actualName, "Artificial");
+});
+
+test("excludes the source note's own names", () => {
+    const matcher = makeMatcher(["Python", "Python Tips"], { matchStart: true });
+    assert.deepEqual(words(matcher, "Python Tips for Python", new Set(["python tips"])), ["Python", "Python"]);
+    assert.deepEqual(words(matcher, "Python and pythonic", new Set(["python"])), []);
+    assert.deepEqual(matcher.findMatches("Python", new Set(["python"]), { allowSelf: true }).map(m => m.word), ["Python"]);
+});
+
+test("ignored words are never indexed", () => {
+    const matcher = makeMatcher(["Python", "The"], { ignoredWords: ["the"] });
+    assert.deepEqual(words(matcher, "The Python"), ["Python"]);
+});
+
+test("keeps every candidate for a shared name", () => {
+    const matcher = makeMatcher([]);
+    const a = { file: { basename: "Index", path: "Work/Index.md" } as TFile, actualName: "Index" };
+    const b = { file: { basename: "Index", path: "Home/Index.md" } as TFile, actualName: "Index" };
+    matcher.addTerm("Index", a);
+    matcher.addTerm("Index", b);
+    matcher.addTerm("index", { ...a, actualName: "index" }); // alias equal to the basename is not a second candidate
+
+    const [m] = matcher.findMatches("see the index", new Set());
+    assert.deepEqual(m.candidates.map(t => t.file.path), ["Work/Index.md", "Home/Index.md"]);
+    assert.equal(m.target.file.path, "Work/Index.md");
+
+    const reversed = matcher.findMatches("see the index", new Set(), { rank: c => [...c].reverse() });
+    assert.equal(reversed[0].target.file.path, "Home/Index.md");
+});
+
+test("phrases keep every candidate too", () => {
+    const matcher = makeMatcher(["Design Pattern"]);
+    matcher.addTerm("Design Pattern", { file: file("Patterns/Design Pattern"), actualName: "Design Pattern" });
+    const [m] = matcher.findMatches("a design pattern", new Set());
+    assert.equal(m.candidates.length, 2);
+});
+
+test("removing a file drops only its terms", () => {
+    const matcher = makeMatcher(["Machine Learning", "Machine"]);
+    const other = { file: { basename: "ML", path: "Other/ML.md" } as TFile, actualName: "Machine Learning" };
+    matcher.addTerm("Machine Learning", other);
+
+    const removed = matcher.removeFile("Machine Learning.md");
+    assert.deepEqual(removed.map(e => e.term), ["machine learning"]);
+    const [m] = matcher.findMatches("machine learning", new Set());
+    assert.deepEqual(m.candidates, [other]);
+
+    matcher.removeFile("Other/ML.md");
+    assert.deepEqual(words(matcher, "machine learning"), ["machine"]);
+    assert.equal(matcher.phraseTrie.root.children.get("machine")!.children.size, 0);
+});
+
+test("removal works after a rename changed the file path", () => {
+    const matcher = makeMatcher([]);
+    const renamed = { basename: "Python", path: "Python.md" } as TFile;
+    matcher.addTerm("Python", { file: renamed, actualName: "Python" });
+    renamed.path = "Languages/Python.md";
+
+    matcher.removeFile("Python.md");
+    assert.deepEqual(words(matcher, "Python"), []);
+    assert.equal(matcher.singleWordIndex.size, 0);
+    assert.equal(matcher.phraseTrie.root.children.size, 0);
+});
+
+test("excluded ranges are skipped and split phrases", () => {
+    const matcher = makeMatcher(["Python", "Machine Learning"]);
+    const text = "`Python` and Python";
+    assert.deepEqual(matcher.findMatches(text, new Set(), { exclude: [{ from: 0, to: 8 }] }).map(m => m.start), [13]);
+    assert.deepEqual(matcher.findMatches("machine learning", new Set(), { exclude: [{ from: 7, to: 8 }] }), []);
+    // Exclusions use the same coordinates as the reported positions
+    assert.deepEqual(matcher.findMatches(text, new Set(), { offset: 100, exclude: [{ from: 100, to: 108 }] }).map(m => m.start), [113]);
+});
+
+test("finds names inside Chinese and Japanese text", () => {
+    const matcher = makeMatcher(["机器学习", "学习", "東京タワー"]);
+    assert.deepEqual(words(matcher, "我喜欢机器学习和深度学习"), ["机器学习", "学习"]);
+    assert.deepEqual(words(matcher, "昨日は東京タワーに行った"), ["東京タワー"]);
+});
+
+test("finds names inside Thai text", () => {
+    const matcher = makeMatcher(["ภาษาไทย"]);
+    const [m] = matcher.findMatches("ฉันเรียนภาษาไทยทุกวัน", new Set());
+    assert.equal(m.word, "ภาษาไทย");
+    assert.equal(m.start, 8);
+});
+
+test("splits Latin words from character runs", () => {
+    const matcher = makeMatcher(["Python", "入門"]);
+    assert.deepEqual(words(matcher, "Pythonの入門書"), ["Python", "入門"]);
+});
+
+test("matches mixed-script names inside character runs", () => {
+    const matcher = makeMatcher(["Python入門", "Python", "入門Rust", "Python入門 Guide"]);
+    const [m] = matcher.findMatches("今日はPython入門を読んだ", new Set());
+    assert.equal(m.word, "Python入門");
+    assert.equal(m.start, 3);
+    assert.deepEqual(words(matcher, "Python入門"), ["Python入門"]);
+    assert.deepEqual(words(matcher, "新しい入門Rustです"), ["入門Rust"]);
+    assert.deepEqual(words(matcher, "Python入門 Guide and Python入門"), ["Python入門 Guide", "Python入門"]);
+});
+
+test("character matching skips the note's own names but keeps shorter ones", () => {
+    const matcher = makeMatcher(["机器学习", "学习"]);
+    assert.deepEqual(words(matcher, "机器学习", new Set(["机器学习"])), ["学习"]);
+});
+
+test("character matching can be turned off or forced on", () => {
+    const off = makeMatcher(["学习"], { characterMatching: "off" });
+    assert.deepEqual(words(off, "深度学习"), []);
+    assert.deepEqual(words(off, "学习"), ["学习"]);
+
+    const always = makeMatcher(["graph", "Graph Theory"], { characterMatching: "always", matchMiddle: true });
+    assert.deepEqual(words(always, "Hypergraphs and graph theory"), ["graph", "graph theory"]);
+});
+
+test("forced character matching keeps the word rules outside spaceless scripts", () => {
+    const always = makeMatcher(["Ai", "graph"], { characterMatching: "always", matchStart: true });
+    assert.deepEqual(words(always, "maintain the Ai graphs, not hypergraphs"), ["Ai", "graph"]);
+    assert.deepEqual(words(always, "学习Ai"), ["Ai"]);
+});
+
+test("character matches are removed with their file", () => {
+    const matcher = makeMatcher(["机器学习"]);
+    matcher.removeFile("机器学习.md");
+    assert.deepEqual(words(matcher, "我喜欢机器学习"), []);
+});
+
+test("morphology mode matches word forms instead of affixes", () => {
+    const matcher = makeMatcher(["Company", "Art", "Cat", "Design Pattern"], { matchMode: "morphology", matchStart: true, matchEnd: true });
+    assert.deepEqual(words(matcher, "Companies need art, arts and cats"), ["Companies", "art", "arts", "cats"]);
+    assert.deepEqual(words(matcher, "Artificial categories"), []);
+    assert.deepEqual(words(matcher, "Design Patterns in practice"), ["Design Patterns"]);
+});
+
+test("morphology mode prefers exact phrases and skips short names", () => {
+    const matcher = makeMatcher(["Go", "Running", "Run"], { matchMode: "morphology" });
+    const [m] = matcher.findMatches("running", new Set());
+    assert.equal(m.target.actualName, "Running");
+    assert.deepEqual(words(matcher, "goes and go"), ["go"]);
+});
+
+test("morphology languages are pluggable per setting", () => {
+    const dutch = makeMatcher(["Kat", "Huis"], { matchMode: "morphology", morphologyLanguages: ["nl"] });
+    assert.deepEqual(words(dutch, "katten en huizen"), ["katten", "huizen"]);
+    const english = makeMatcher(["Kat"], { matchMode: "morphology", morphologyLanguages: ["en"] });
+    assert.deepEqual(words(english, "katten"), []);
+});
+
+test("a target filter drops candidates and skips matches with none left", () => {
+    const matcher = makeMatcher(["Python", "Rust"]);
+    matcher.addTerm("Python", { file: file("Snakes/Python"), actualName: "Python" });
+    const matches = matcher.findMatches("Python and Rust", new Set(), { filter: t => t.file.path.startsWith("Snakes/") });
+    assert.deepEqual(matches.map(m => m.word), ["Python"]);
+    assert.deepEqual(matches[0].candidates.map(t => t.file.path), ["Snakes/Python.md"]);
+});
+
+test("case-sensitive names only match with the same casing", () => {
+    const matcher = makeMatcher(["Python"], { matchStart: true });
+    matcher.addTerm("IT", { file: file("IT"), actualName: "IT", caseSensitive: true });
+    matcher.addTerm("May", { file: file("May"), actualName: "May", caseSensitive: true });
+    matcher.addTerm("Data Science", { file: file("Data Science"), actualName: "Data Science", caseSensitive: true });
+    assert.deepEqual(words(matcher, "it is IT, may be May, ITs"), ["IT", "May"]);
+    assert.deepEqual(words(matcher, "data science vs Data Science"), ["Data Science"]);
+});
+
+test("a case-sensitive candidate does not hide an insensitive one", () => {
+    const matcher = makeMatcher(["US"]);
+    matcher.addTerm("US", { file: file("Places/US"), actualName: "US", caseSensitive: true });
+    const [m] = matcher.findMatches("tell us", new Set());
+    assert.deepEqual(m.candidates.map(t => t.file.path), ["US.md"]);
+});
+
+test("all-caps heuristic", () => {
+    assert.ok(isAllCaps("IT"));
+    assert.ok(isAllCaps("NASA 2"));
+    assert.ok(!isAllCaps("A"));
+    assert.ok(!isAllCaps("May"));
+    assert.ok(!isAllCaps("42"));
+});
+
+test("regex patterns match whole words and win over words", () => {
+    const matcher = makeMatcher(["Proj"]);
+    assert.ok(matcher.addPattern("PROJ-\\d+", { file: file("Project"), actualName: "Project" }));
+    assert.ok(!matcher.addPattern("PROJ-(", { file: file("Project"), actualName: "Project" }));
+    const matches = matcher.findMatches("See PROJ-12, proj-3 and XPROJ-4 for Proj", new Set());
+    assert.deepEqual(matches.map(m => m.word), ["PROJ-12", "proj", "Proj"]);
+    assert.equal(matches[0].target.source, "pattern");
+    assert.equal(describeTerm(matches[0].target), "pattern /PROJ-\\d+/");
+    assert.deepEqual(words(matcher, "PROJ-12", new Set(["project"])), ["PROJ"]); // Not inside the project note itself
+});
+
+test("patterns are removed with their file", () => {
+    const matcher = makeMatcher([]);
+    matcher.addPattern("PROJ-\\d+", { file: file("Project"), actualName: "Project" });
+    matcher.removeFile("Project.md");
+    assert.deepEqual(words(matcher, "PROJ-12"), []);
+});
+
+test("knows when a phrase can still grow into a longer name", () => {
+    const matcher = makeMatcher(["Machine", "Machine Learning"]);
+    assert.ok(matcher.hasLongerPhrase("machine"));
+    assert.ok(!matcher.hasLongerPhrase("Machine Learning"));
+    assert.ok(!matcher.hasLongerPhrase("robot"));
+});
+
+test("partial matches are still found in a large index", () => {
+    const filler = Array.from({ length: 500 }, (_, i) => `filler${i}`);
+    const matcher = makeMatcher([...filler, "Python", "Pyth"], { matchStart: true, matchEnd: true, matchMiddle: true });
+    assert.deepEqual(words(matcher, "Pythonic and cpythonx code"), ["Pythonic", "cpythonx"]);
+    assert.deepEqual(matcher.findMatches("Pythonic", new Set()).map(m => m.target.actualName), ["Python"]);
+    matcher.removeFile("Python.md");
+    assert.deepEqual(matcher.findMatches("Pythonic", new Set()).map(m => m.target.actualName), ["Pyth"]);
+});
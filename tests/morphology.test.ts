@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getStemmer, getStemmers, registerStemmer } from "../src/morphology";
+
+const same = (lang: string, a: string, b: string) => getStemmer(lang)!.stem(a) === getStemmer(lang)!.stem(b);
+
+test("English inflections share a stem", () => {
+    for (const [a, b] of [["Companies", "Company"], ["patterns", "pattern"], ["running", "run"], ["hoping", "hope"], ["classes", "class"], ["studies", "study"]]) {
+        assert.ok(same("en", a, b), `${a} ~ ${b}`);
+    }
+});
+
+test("English derivations stay apart", () => {
+    assert.ok(!same("en", "Art", "Artificial"));
+    assert.ok(!same("en", "Cat", "Category"));
+});
+
+test("Dutch plurals, diminutives and open syllables share a stem", () => {
+    for (const [a, b] of [["katten", "kat"], ["bomen", "boom"], ["huizen", "huis"], ["brieven", "brief"], ["mogelijkheden", "mogelijkheid"], ["huisjes", "huis"], ["tafels", "tafel"]]) {
+        assert.ok(same("nl", a, b), `${a} ~ ${b}`);
+    }
+});
+
+test("stemmers can be registered", () => {
+    registerStemmer({ id: "test", name: "Test", stem: w => w.toLowerCase().replace(/z$/, "") });
+    assert.ok(getStemmers().some(s => s.id === "test"));
+    assert.ok(same("test", "boxz", "box"));
+});
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NoiseSettings, buildSuppressor, describeSuppression } from "../src/noise";
+
+const settings = (overrides: Partial<NoiseSettings> = {}): NoiseSettings =>
+    ({ stopwordLanguages: ["en"], customStopwords: [], suppressCommonTerms: false, commonTermThreshold: 20, pinnedTerms: [], ...overrides });
+
+const frequency = { notes: 100, counts: new Map([["notes", 40], ["python", 5]]) };
+
+test("stopwords are suppressed per enabled language", () => {
+    assert.deepEqual(buildSuppressor(settings(), null)("the"), { reason: "stopword", list: "English" });
+    assert.equal(buildSuppressor(settings(), null)("der"), null);
+    assert.deepEqual(buildSuppressor(settings({ stopwordLanguages: ["de"] }), null)("der"), { reason: "stopword", list: "German" });
+    assert.equal(buildSuppressor(settings(), null)("python"), null);
+});
+
+test("custom stopwords and pins", () => {
+    assert.deepEqual(buildSuppressor(settings({ customStopwords: ["todo"] }), null)("todo"), { reason: "custom" });
+    assert.equal(buildSuppressor(settings({ pinnedTerms: ["on"] }), null)("on"), null);
+});
+
+test("common terms are suppressed above the threshold only when enabled", () => {
+    assert.equal(buildSuppressor(settings(), frequency)("notes"), null);
+    const suppress = buildSuppressor(settings({ suppressCommonTerms: true }), frequency);
+    assert.deepEqual(suppress("notes"), { reason: "common", notes: 40, total: 100 });
+    assert.equal(suppress("python"), null);
+    assert.equal(buildSuppressor(settings({ suppressCommonTerms: true, commonTermThreshold: 50 }), frequency)("notes"), null);
+});
+
+test("small vaults are not judged by frequency", () => {
+    const small = { notes: 5, counts: new Map([["notes", 5]]) };
+    assert.equal(buildSuppressor(settings({ suppressCommonTerms: true }), small)("notes"), null);
+});
+
+test("suppression reasons read naturally", () => {
+    assert.equal(describeSuppression({ reason: "common", notes: 40, total: 100 }), "in 40% of notes (40 of 100)");
+    assert.equal(describeSuppression({ reason: "stopword", list: "English" }), "English stopword");
+});
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bodyStart, truncateMarkdown } from "../src/preview";
+
+test("the body starts after frontmatter", () => {
+    const text = "---\naliases: [Py]\n---\n# Python\nText";
+    assert.equal(text.substring(bodyStart(text)), "# Python\nText");
+    assert.equal(bodyStart("# No frontmatter\n---\n"), 0);
+});
+
+test("short markdown is kept whole", () => {
+    assert.deepEqual(truncateMarkdown("One line", 100), { text: "One line", truncated: false });
+});
+
+test("long markdown is cut at a line end outside code fences", () => {
+    const markdown = ["Intro paragraph.", "", "```js", "const a = 1;", "const b = 2;", "```", "After the code."].join("\n");
+    assert.deepEqual(truncateMarkdown(markdown, 45), { text: "Intro paragraph.", truncated: true });
+    assert.deepEqual(truncateMarkdown(markdown, 60), { text: markdown.substring(0, markdown.indexOf("\nAfter")), truncated: true });
+});
+
+test("one-line math blocks don't open a block", () => {
+    const markdown = ["$$x^2$$", "Text after the formula.", "More text that goes on for a while."].join("\n");
+    assert.equal(truncateMarkdown(markdown, 40).text, "$$x^2$$\nText after the formula.");
+});
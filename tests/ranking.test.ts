@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import type { MatchTarget } from "../src/matcher";
+import { rankCandidates } from "../src/ranking";
+
+const target = (path: string, mtime = 0): MatchTarget => ({
+    file: { path, basename: path.split("/").pop()!.replace(/\.md$/, ""), stat: { mtime } } as TFile,
+    actualName: "Index"
+});
+
+const paths = (targets: MatchTarget[]) => targets.map(t => t.file.path);
+
+test("same folder first, then nearest folder", () => {
+    const candidates = [target("Home/Index.md"), target("Work/Projects/Index.md"), target("Work/Index.md")];
+    const ctx = { sourcePath: "Work/Projects/Plan.md", backlinks: () => 0 };
+    assert.deepEqual(paths(rankCandidates(candidates, ["same-folder"], ctx)), ["Work/Projects/Index.md", "Work/Index.md", "Home/Index.md"]);
+});
+
+test("root notes count as the same folder", () => {
+    const candidates = [target("Archive/Index.md"), target("Index.md")];
+    const ctx = { sourcePath: "Plan.md", backlinks: () => 0 };
+    assert.deepEqual(paths(rankCandidates(candidates, ["same-folder"], ctx)), ["Index.md", "Archive/Index.md"]);
+});
+
+test("rules apply in priority order", () => {
+    const candidates = [target("A/Index.md", 300), target("B/Index.md", 100), target("C/Index.md", 200)];
+    const backlinks = (path: string) => (path === "B/Index.md" || path === "C/Index.md" ? 5 : 1);
+    const ctx = { sourcePath: "Plan.md", backlinks };
+    assert.deepEqual(paths(rankCandidates(candidates, ["most-backlinks", "recently-modified"], ctx)), ["C/Index.md", "B/Index.md", "A/Index.md"]);
+    assert.deepEqual(paths(rankCandidates(candidates, ["recently-modified", "most-backlinks"], ctx)), ["A/Index.md", "C/Index.md", "B/Index.md"]);
+});
+
+test("falls back to path order without rules", () => {
+    const candidates = [target("b/Index.md"), target("a/Index.md")];
+    assert.deepEqual(paths(rankCandidates(candidates, [], { sourcePath: "", backlinks: () => 0 })), ["a/Index.md", "b/Index.md"]);
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import type { LinkMatch, MatchTarget } from "../src/matcher";
+import { lineRange, sourcePairer, firstMentionStarts } from "../src/reading";
+
+const target = (name: string): MatchTarget => ({ file: { basename: name, path: `${name}.md` } as TFile, actualName: name });
+
+const match = (start: number, word: string, name = word): LinkMatch =>
+    ({ start, end: start + word.length, word, target: target(name), candidates: [target(name)], key: name.toLowerCase() });
+
+test("line ranges cover whole lines", () => {
+    const text = "# Title\nFirst line\nSecond line\nLast";
+    assert.deepEqual(lineRange(text, 1, 2), { from: 8, to: 30 });
+    assert.equal(text.substring(8, 30), "First line\nSecond line");
+    assert.deepEqual(lineRange(text, 3, 3), { from: 31, to: 35 });
+    assert.deepEqual(lineRange(text, 9, 9), { from: 35, to: 35 });
+});
+
+test("rendered matches pair with source matches in order, skipping what the source leaves out", () => {
+    // Source: "Python and [[Rust|rust]] and Python" → the link text isn't a source match
+    const source = [match(0, "Python"), match(30, "Python")];
+    const pair = sourcePairer(source);
+    assert.equal(pair(match(0, "Python")), source[0]);
+    assert.equal(pair(match(11, "rust", "Rust")), null);
+    assert.equal(pair(match(20, "Python")), source[1]);
+    assert.equal(pair(match(40, "Python")), null);
+});
+
+test("first mentions are per term across the note", () => {
+    const matches = [match(50, "Python"), match(10, "Rust"), match(5, "python", "Python")];
+    assert.deepEqual([...firstMentionStarts(matches)].sort((a, b) => a - b), [5, 10]);
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import { LinkMatch, LinkMatcher, MatchTarget } from "../src/matcher";
+import { describeRelevance, folderDistance, relevanceScore, scoreMatch, RelevanceContext } from "../src/relevance";
+
+const target = (path: string): MatchTarget => ({ file: { path, basename: path.split("/").pop()!.replace(/\.md$/, "") } as TFile, actualName: "Rust" });
+const match = (word: string, key: string, path: string): LinkMatch => {
+    const t = target(path);
+    return { start: 0, end: word.length, word, target: t, candidates: [t], key };
+};
+
+const context = (overrides: Partial<RelevanceContext> = {}): RelevanceContext => ({
+    sourcePath: "Dev/Notes/Plan.md",
+    sourceTags: ["#lang", "#Work"],
+    tags: () => [],
+    linkers: [],
+    links: () => false,
+    ...overrides
+});
+
+test("folder distance counts steps up and down", () => {
+    assert.equal(folderDistance("Dev/Plan.md", "Dev/Rust.md"), 0);
+    assert.equal(folderDistance("Plan.md", "Rust.md"), 0);
+    assert.equal(folderDistance("Dev/Notes/Plan.md", "Dev/Rust.md"), 1);
+    assert.equal(folderDistance("Dev/Notes/Plan.md", "Home/Rust.md"), 3);
+});
+
+test("exact mentions in the same folder outscore partial ones far away", () => {
+    const near = scoreMatch(match("Rust", "rust", "Dev/Notes/Rust.md"), context());
+    const far = scoreMatch(match("Rusty", "rust", "Archive/Old/Rust.md"), context());
+    assert.equal(near.signals.exact, true);
+    assert.equal(far.signals.exact, false);
+    assert.ok(near.score > far.score);
+});
+
+test("phrases match exactly regardless of spacing and case", () => {
+    assert.equal(scoreMatch(match("New  York", "new york", "Dev/Notes/NY.md"), context()).signals.exact, true);
+});
+
+test("character-level hits inside a longer word score as partial", () => {
+    const matcher = new LinkMatcher({
+        matchStart: true, matchEnd: false, matchMiddle: false, minMatchLength: 3, ignoredWords: [], characterMatching: "always", matchMode: "affix", morphologyLanguages: []
+    });
+    matcher.addTerm("cat", target("Dev/Notes/Cat.md"));
+    const [inside] = matcher.findMatches("a category", new Set());
+    assert.equal(inside.word, "cat");
+    assert.match(describeRelevance(scoreMatch(inside, context())), /partial/);
+    const [whole] = matcher.findMatches("a cat", new Set());
+    assert.match(describeRelevance(scoreMatch(whole, context())), /exact/);
+});
+
+test("shared tags are compared case-insensitively", () => {
+    const r = scoreMatch(match("Rust", "rust", "Dev/Rust.md"), context({ tags: () => ["#work", "#lang", "#other"] }));
+    assert.equal(r.signals.sharedTags, 2);
+});
+
+test("co-links count notes linking to both the source and the target", () => {
+    const links = (from: string, to: string) => from !== "C.md" && to === "Dev/Rust.md";
+    const r = scoreMatch(match("Rust", "rust", "Dev/Rust.md"), context({ linkers: ["A.md", "B.md", "C.md"], links }));
+    assert.equal(r.signals.coLinks, 2);
+});
+
+test("scores range from 0 to 1 and saturate", () => {
+    assert.equal(relevanceScore({ exact: false, sharedTags: 0, folderDistance: Infinity, coLinks: 0 }), 0);
+    assert.equal(relevanceScore({ exact: true, sharedTags: 2, folderDistance: 0, coLinks: 3 }), 1);
+    assert.equal(relevanceScore({ exact: true, sharedTags: 9, folderDistance: 0, coLinks: 9 }), 1);
+});
+
+test("describes the signals behind a score", () => {
+    const r = { score: 0.63, signals: { exact: true, sharedTags: 1, folderDistance: 0, coLinks: 0 } };
+    assert.equal(describeRelevance(r), "Relevance 63%: exact, 1 shared tag, same folder");
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import type { LinkMatch, MatchTarget } from "../src/matcher";
+import { buildReport, reportToMarkdown, reportToCsv, reportToJson, isReportFile, REPORT_BASENAME } from "../src/report";
+
+const file = (path: string) => ({ basename: path.replace(/\.md$/, ""), path } as TFile);
+const target = (path: string, actualName = path.replace(/\.md$/, "")): MatchTarget => ({ file: file(path), actualName });
+const mention = (word: string, t: MatchTarget): LinkMatch => ({ start: 0, end: word.length, word, target: t, candidates: [t], key: word.toLowerCase() });
+
+const python = target("Python.md"), py = target("Python.md", "Py"), rust = target("Rust.md");
+const results = [
+    { file: file("A.md"), matches: [mention("Python", python), mention("py", py), mention("Rust", rust)] },
+    { file: file("B.md"), matches: [mention("Python", python), mention("PY", py)] }
+];
+const backlinks = (path: string) => path === "Rust.md" ? 2 : 0;
+const report = buildReport(results, 10, backlinks, 20, new Date("2024-01-01T00:00:00Z"));
+
+test("counts targets, orphans, sources and terms", () => {
+    assert.equal(report.mentions, 5);
+    assert.deepEqual(report.topTargets.map(r => [r.name, r.mentions, r.notes]), [["Python.md", 4, 2], ["Rust.md", 1, 1]]);
+    assert.deepEqual(report.orphans.map(r => r.name), ["Python.md"]);
+    assert.deepEqual(report.topSources.map(r => [r.name, r.mentions, r.notes]), [["A.md", 3, 2], ["B.md", 2, 1]]);
+    assert.deepEqual(report.topTerms.map(r => r.name), ["Py", "Python", "Rust"]);
+    assert.deepEqual(report.topTerms[0], { name: "Py", target: "Python.md", mentions: 2, notes: 2, examples: ["py"] });
+});
+
+test("writes markdown tables without links", () => {
+    const md = reportToMarkdown(report, { ignore_linking: true });
+    assert.ok(md.startsWith("---\nignore_linking: true\n---\n"));
+    assert.ok(md.includes("| `Python.md` | 4 | 2 |"));
+    assert.ok(!md.includes("[["));
+});
+
+test("exports CSV and JSON", () => {
+    const csv = reportToCsv(report).split("\n");
+    assert.equal(csv[0], "section,name,target,mentions,notes,examples");
+    assert.ok(csv.includes("term,Py,Python.md,2,2,py"));
+    assert.equal(JSON.parse(reportToJson(report)).notesScanned, 10);
+});
+
+test("recognizes a previous report and its exports", () => {
+    assert.ok(isReportFile(`${REPORT_BASENAME}.md`));
+    assert.ok(isReportFile(`${REPORT_BASENAME}.csv`));
+    assert.ok(isReportFile(`${REPORT_BASENAME}.json`));
+    assert.ok(!isReportFile(`Archive/${REPORT_BASENAME}.md`));
+    assert.ok(!isReportFile("Notes/Report.md"));
+});
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { matchesPattern, isTargetAllowed, isSourceEnabled, targetRestrictions, isTargetAllowedFrom, ScopeSettings } from "../src/scope";
+
+const scope = (overrides: Partial<ScopeSettings> = {}): ScopeSettings => ({
+    targetInclude: [], targetExclude: [], sourceExclude: [], sourceSwitchKey: "lazy_links", sourceTargetRules: [], ...overrides
+});
+
+test("folder patterns match by prefix", () => {
+    assert.ok(matchesPattern("Templates/Daily.md", [], "Templates/"));
+    assert.ok(matchesPattern("Templates/Sub/Daily.md", [], "/templates"));
+    assert.ok(!matchesPattern("TemplatesOld/Daily.md", [], "Templates"));
+});
+
+test("globs match the path or any ancestor folder", () => {
+    assert.ok(matchesPattern("Journal/2024/Jan.md", [], "Journal/**/*.md"));
+    assert.ok(matchesPattern("Journal/Jan.md", [], "Journal/**/*.md"));
+    assert.ok(matchesPattern("Projects/A/Archive/Old.md", [], "Projects/*/Archive"));
+    assert.ok(!matchesPattern("Projects/A/B/Archive/Old.md", [], "Projects/*/Archive"));
+    assert.ok(matchesPattern("Notes/Draft 1.md", [], "*/Draft ?.md"));
+});
+
+test("tag patterns match nested tags", () => {
+    assert.ok(matchesPattern("a.md", ["#daily/2024"], "#daily"));
+    assert.ok(matchesPattern("a.md", ["#Daily"], "#daily"));
+    assert.ok(!matchesPattern("a.md", ["#dailyish"], "#daily"));
+});
+
+test("target include and exclude lists", () => {
+    const settings = scope({ targetInclude: ["Wiki/", "#concept"], targetExclude: ["Wiki/Archive"] });
+    assert.ok(isTargetAllowed("Wiki/Python.md", [], settings));
+    assert.ok(isTargetAllowed("Inbox/Idea.md", ["#concept"], settings));
+    assert.ok(!isTargetAllowed("Inbox/Idea.md", [], settings));
+    assert.ok(!isTargetAllowed("Wiki/Archive/Old.md", [], settings));
+    assert.ok(isTargetAllowed("Anything.md", [], scope()));
+});
+
+test("sources can be switched off by folder, tag or frontmatter", () => {
+    const settings = scope({ sourceExclude: ["Daily/", "#private"] });
+    assert.ok(!isSourceEnabled("Daily/2024-01-01.md", [], undefined, settings));
+    assert.ok(!isSourceEnabled("Note.md", ["#private"], undefined, settings));
+    assert.ok(!isSourceEnabled("Note.md", [], { lazy_links: "off" }, settings));
+    assert.ok(!isSourceEnabled("Note.md", [], { lazy_links: false }, settings));
+    assert.ok(isSourceEnabled("Note.md", [], { lazy_links: "on" }, settings));
+    assert.ok(isSourceEnabled("Note.md", [], { lazy_links: "off" }, scope({ sourceSwitchKey: "" })));
+});
+
+test("per-source rules restrict targets", () => {
+    const settings = scope({ sourceTargetRules: [{ source: "Work/", targets: ["Work/", "#shared"] }] });
+    assert.equal(targetRestrictions("Home/Note.md", [], settings), null);
+    const restrictions = targetRestrictions("Work/Note.md", [], settings)!;
+    assert.ok(isTargetAllowedFrom(restrictions, "Work/Client.md", []));
+    assert.ok(isTargetAllowedFrom(restrictions, "Home/Recipe.md", ["#shared"]));
+    assert.ok(!isTargetAllowedFrom(restrictions, "Home/Recipe.md", []));
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TFile } from "obsidian";
+import { LinkMatcher, MatchTarget } from "../src/matcher";
+import { matchEndingAt, isFirstMention, suggestionsFor, suggestionText } from "../src/suggest";
+
+const target = (path: string, extra: Partial<MatchTarget> = {}): MatchTarget =>
+    ({ file: { basename: path.replace(/^.*\//, "").replace(/\.md$/, ""), path } as TFile, actualName: path.replace(/^.*\//, "").replace(/\.md$/, ""), ...extra });
+
+const matcher = new LinkMatcher({
+    matchStart: false, matchEnd: false, matchMiddle: false, minMatchLength: 3, ignoredWords: [], characterMatching: "auto", matchMode: "affix", morphologyLanguages: ["en"]
+});
+matcher.addTerm("Python", target("Python.md"));
+matcher.addTerm("Py", target("Python.md", { actualName: "Py", source: "alias" }));
+matcher.addTerm("Index", target("Work/Index.md"));
+matcher.addTerm("Index", target("Home/Index.md"));
+
+test("suggests only for a mention that ends at the cursor", () => {
+    const text = "I use Python daily";
+    const matches = matcher.findMatches(text, new Set());
+    assert.equal(matchEndingAt(matches, 12)?.word, "Python");
+    assert.equal(matchEndingAt(matches, 10), null);
+    assert.equal(matchEndingAt(matches, text.length), null);
+});
+
+test("a partly typed name is not suggested", () => {
+    const text = "I use Pyth";
+    assert.equal(matchEndingAt(matcher.findMatches(text, new Set()), text.length), null);
+});
+
+test("first mention only looks at earlier mentions of the same term", () => {
+    const text = "Python here, Index there, and Python again";
+    const matches = matcher.findMatches(text, new Set());
+    const [first, index, second] = matches;
+    assert.ok(isFirstMention(matches, first));
+    assert.ok(isFirstMention(matches, index));
+    assert.ok(!isFirstMention(matches, second));
+});
+
+test("offers every candidate of an ambiguous term, with its path", () => {
+    const [m] = matcher.findMatches("see the Index", new Set());
+    const suggestions = suggestionsFor(m);
+    assert.equal(suggestions.length, 2);
+    assert.deepEqual(suggestions.map(s => suggestionText(s).note).sort(), ["Home/Index.md", "Work/Index.md"]);
+    assert.deepEqual(suggestionsFor(null), []);
+});
+
+test("says which alias matched", () => {
+    const [m] = matcher.findMatches("some Py code", new Set());
+    assert.deepEqual(suggestionText(suggestionsFor(m)[0]), { title: 'Link to "Python"', note: 'via alias "Py"' });
+});
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { headingSubpaths, describeSubpath, listItemLabel, blockTerms } from "../src/targets";
+
+test("unique headings keep a short subpath, repeated ones get their full path", () => {
+    const headings = [
+        { heading: "Python", level: 1 },
+        { heading: "Overview", level: 2 },
+        { heading: "Install", level: 3 },
+        { heading: "Rust", level: 1 },
+        { heading: "overview", level: 2 }
+    ];
+    assert.deepEqual(headingSubpaths(headings), ["#Python", "#Python#Overview", "#Install", "#Rust", "#Rust#overview"]);
+});
+
+test("subpaths are described for menus and groups", () => {
+    assert.equal(describeSubpath("#Python#Overview"), "Python > Overview");
+    assert.equal(describeSubpath("#^def-owner"), "^def-owner");
+});
+
+test("list item labels", () => {
+    assert.equal(listItemLabel("- **Ownership**: every value has one owner ^own"), "Ownership");
+    assert.equal(listItemLabel("1. Borrow checker: enforces the rules ^bc"), "Borrow checker");
+    assert.equal(listItemLabel("- [ ] Lifetimes ^lt"), "Lifetimes");
+    assert.equal(listItemLabel("- a long item that is really a whole sentence about something ^x"), null);
+});
+
+test("block terms come from comments, and from list items only when enabled", () => {
+    const blocks = [
+        { id: "p1", text: "Values are moved by default. %% lazy_term: Move semantics %% ^p1", isListItem: false },
+        { id: "li", text: "- **Ownership**: one owner ^li", isListItem: true },
+        { id: "both", text: "- Borrowing <!-- lazy_term: Borrow --> ^both", isListItem: true }
+    ];
+    assert.deepEqual(blockTerms(blocks, { comments: true, listItems: false }), [{ id: "p1", term: "Move semantics" }, { id: "both", term: "Borrow" }]);
+    assert.deepEqual(blockTerms(blocks, { comments: false, listItems: true }), [{ id: "li", term: "Ownership" }]);
+});
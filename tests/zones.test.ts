@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Zone, findBlockZones, findInlineZones, findMarkdownZones, sectionZones, excludedZones } from "../src/zones";
+
+const covered = (text: string, zones: Zone[]) => zones.map(z => `${z.kind}:${text.substring(z.from, z.to)}`);
+
+test("finds inline code, math, comments, links, URLs, tags and HTML", () => {
+    const text = "Use `Python` with $x^2$ %%note%% [[Rust]] https://go.dev #lang <b>bold</b>";
+    assert.deepEqual(covered(text, findInlineZones(text)), [
+        "code:`Python`", "math:$x^2$", "comment:%%note%%", "link:[[Rust]]", "url:https://go.dev", "tag:#lang", "html:<b>", "html:</b>"
+    ]);
+});
+
+test("leftmost zone wins and prices are not math", () => {
+    const text = "`$a` costs $5 and $10 #123";
+    assert.deepEqual(covered(text, findInlineZones(text)), ["code:`$a`"]);
+});
+
+test("comments may span lines", () => {
+    const text = "a %%hidden\nPython%% b";
+    assert.deepEqual(covered(text, findInlineZones(text)), ["comment:%%hidden\nPython%%"]);
+});
+
+test("finds callout metadata", () => {
+    const text = "> [!note]- Python\n> body";
+    assert.deepEqual(covered(text, findInlineZones(text)), ["callout-meta:> [!note]-"]);
+});
+
+test("finds frontmatter, fences, headings, callouts and tables", () => {
+    const text = [
+        "---", "aliases: [Py]", "---",
+        "# Python",
+        "```js", "Python()", "```",
+        "> [!tip] Title", "> Python inside",
+        "| Lang | Use |", "| --- | --- |", "| Python | web |",
+        "plain Python"
+    ].join("\n");
+    assert.deepEqual(findBlockZones(text).map(z => z.kind), ["frontmatter", "heading", "code", "callout", "table"]);
+    const table = findBlockZones(text).find(z => z.kind === "table")!;
+    assert.equal(text.substring(table.from, table.to), "| Lang | Use |\n| --- | --- |\n| Python | web |");
+});
+
+test("maps metadata cache sections", () => {
+    const section = (type: string, from: number, to: number) => ({ type, position: { start: { offset: from }, end: { offset: to } } });
+    assert.deepEqual(sectionZones([section("yaml", 0, 10), section("paragraph", 11, 20), section("table", 21, 30)]), [
+        { kind: "frontmatter", from: 0, to: 10 }, { kind: "table", from: 21, to: 30 }
+    ]);
+});
+
+test("optional zones follow the settings", () => {
+    const text = "# Python\n\n| a |\n| - |\n| Python |\n\n`Python`";
+    const all = { highlightInHeadings: true, highlightInTables: true, highlightInCallouts: true };
+    assert.deepEqual(excludedZones(findMarkdownZones(text), all).map(z => z.kind), ["code"]);
+    assert.deepEqual(excludedZones(findMarkdownZones(text), { ...all, highlightInTables: false }).map(z => z.kind), ["table", "code"]);
+});